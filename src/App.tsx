@@ -2,25 +2,39 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
+import { Navigate, RouterProvider, createBrowserRouter } from "react-router-dom";
+import { FlowRepositoryContext } from "@/hooks/use-flow-repository";
+import { createLocalFlowRepository } from "@/lib/flow/local-repository";
+import { createRestFlowRepository } from "@/lib/flow/rest-repository";
+import Flows from "./pages/Flows";
+import FlowEditor from "./pages/FlowEditor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// Use the REST backend when one is configured, otherwise keep flows in the browser
+const flowRepository = import.meta.env.VITE_FLOW_API_URL
+  ? createRestFlowRepository(import.meta.env.VITE_FLOW_API_URL)
+  : createLocalFlowRepository();
+
+// A data router is needed for blocking navigation away from unsaved flows
+const router = createBrowserRouter([
+  { path: "/", element: <Navigate to="/flows" replace /> },
+  { path: "/flows", element: <Flows /> },
+  { path: "/flows/:flowId", element: <FlowEditor /> },
+  // ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE
+  { path: "*", element: <NotFound /> },
+]);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <FlowRepositoryContext.Provider value={flowRepository}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <RouterProvider router={router} />
+      </TooltipProvider>
+    </FlowRepositoryContext.Provider>
   </QueryClientProvider>
 );
 
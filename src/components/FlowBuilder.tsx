@@ -1,9 +1,12 @@
-import React, { useCallback, useState, useMemo } from 'react';
+import React, { useCallback, useState, useMemo, useEffect, useRef, useDeferredValue } from 'react';
 import {
   ReactFlow,
+  ReactFlowProvider,
   addEdge,
+  useReactFlow,
   MiniMap,
   Controls,
+  ControlButton,
   Background,
   useNodesState,
   useEdgesState,
@@ -13,24 +16,120 @@ import {
   NodeTypes,
   BackgroundVariant,
   OnConnect,
-  OnNodesChange,
-  OnEdgesChange,
+  OnBeforeDelete,
+  OnDelete,
+  OnMoveEnd,
+  Viewport,
 } from '@xyflow/react';
-import { MessageSquare, Save, AlertCircle } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { MessageSquare, Save, AlertCircle, AlertTriangle, Download, Upload, Undo2, Redo2, Play, Network, ArrowLeft, StickyNote, Frame, FileJson, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { useFlowListQuery, useFlowQuery, useSaveFlowMutation } from '@/hooks/use-flow-repository';
+import { FlowHistoryFields, useFlowHistory } from '@/hooks/use-flow-history';
+import { useAutoLayout } from '@/hooks/use-auto-layout';
+import { useUnsavedChangesGuard } from '@/hooks/use-unsaved-changes-guard';
+import { FlowEditorContext, FlowEditorContextValue } from '@/hooks/use-flow-editor';
+import {
+  FlowDocument,
+  FlowVariable,
+  createFlowDocument,
+  fromFlowDocument,
+  getDocumentViewport,
+  toFlowDocument,
+  toFlowEdges,
+  toFlowNodes,
+} from '@/lib/flow/document';
+import { downloadFlowDocument, isFlowFile, readFlowDocumentFile } from '@/lib/flow/file';
+import { cloneWithNewIds, getNodesBounds } from '@/lib/flow/clone';
+import { createNodeId } from '@/lib/flow/ids';
+import { createDefaultNodeData } from '@/lib/flow/node-defaults';
+import { getSourceHandles } from '@/lib/flow/handles';
+import { getJumpSourcesByTarget } from '@/lib/flow/jumps';
+import { SearchMatch, SearchOptions, buildSearchPattern, findMatches, getReplacements } from '@/lib/flow/search';
+import { DEFAULT_NOTE_SIZE, isNoteNode } from '@/lib/flow/notes';
+import { isAnnotationNode, withoutAnnotations } from '@/lib/flow/annotations';
+import {
+  DEFAULT_GROUP_SIZE,
+  canBeGrouped,
+  getCanvasEdges,
+  groupNodes,
+  isCollapsedGroup,
+  isGroupNode,
+  isInCollapsedGroup,
+  releaseFromRemovedGroups,
+  reparentDroppedNodes,
+  sortGroupsFirst,
+  ungroupNodes,
+} from '@/lib/flow/groups';
+import { DEFAULT_NODE_SIZE, findFreePosition, getFreeSourceHandle, getPositionRightOf } from '@/lib/flow/placement';
+import { START_NODE_ID, isStartNode, withoutStartNode } from '@/lib/flow/start';
+import {
+  NavigationDirection,
+  describeConnection,
+  describeNode,
+  getNavigationTarget,
+  getNodeName,
+} from '@/lib/flow/navigation';
+import { validateFlow } from '@/lib/flow/validation';
+import { FlowDiagnostic, analyzeFlow } from '@/lib/flow/analysis';
+import { getKnownVariableNames, mergeVariables } from '@/lib/flow/variables';
+import { analyzeWhatsAppLimits } from '@/lib/flow/whatsapp';
+import { getSelectionContent, parseClipboard, serializeClipboard } from '@/lib/flow/clipboard';
 
-import { TextNode, TextNodeData } from './nodes/TextNode';
+import { StartNode } from './nodes/StartNode';
+import { TextNode } from './nodes/TextNode';
+import { ConditionNode } from './nodes/ConditionNode';
+import { QuestionNode } from './nodes/QuestionNode';
+import { ButtonsNode } from './nodes/ButtonsNode';
+import { SubflowNode } from './nodes/SubflowNode';
+import { JumpNode } from './nodes/JumpNode';
+import { NoteNode } from './nodes/NoteNode';
+import { GroupNode } from './nodes/GroupNode';
+import { MiniMapNode } from './nodes/MiniMapNode';
+import { groupColorStyles } from './nodes/group-styles';
 import { NodesPanel } from './panels/NodesPanel';
+import { ProblemsPanel } from './panels/ProblemsPanel';
+import { OutlinePanel } from './panels/OutlinePanel';
+import { FindReplacePanel } from './panels/FindReplacePanel';
+import { VariablesPanel } from './panels/VariablesPanel';
 import { SettingsPanel } from './panels/SettingsPanel';
+import { ImportFlowDialog } from './dialogs/ImportFlowDialog';
+import { PreviewSheet } from './panels/PreviewSheet';
+import { UnsavedChangesDialog } from './dialogs/UnsavedChangesDialog';
+import { CommandPalette } from './dialogs/CommandPalette';
+import { ConnectNodeDialog } from './dialogs/ConnectNodeDialog';
+import { WhatsAppExportDialog } from './dialogs/WhatsAppExportDialog';
 
 // Define node types for the flow
 const nodeTypes: NodeTypes = {
+  startNode: StartNode,
   textNode: TextNode,
+  conditionNode: ConditionNode,
+  questionNode: QuestionNode,
+  buttonsNode: ButtonsNode,
+  subflowNode: SubflowNode,
+  jumpNode: JumpNode,
+  noteNode: NoteNode,
+  groupNode: GroupNode,
 };
 
 // Initial nodes for the flow
 const initialNodes: Node[] = [
+  {
+    id: START_NODE_ID,
+    type: 'startNode',
+    position: { x: 0, y: 200 },
+    data: createDefaultNodeData('startNode'),
+    deletable: false,
+  },
   {
     id: '1',
     type: 'textNode',
@@ -42,19 +141,334 @@ const initialNodes: Node[] = [
   },
 ];
 
-const initialEdges: Edge[] = [];
+const initialEdges: Edge[] = [
+  { id: 'start-edge', source: START_NODE_ID, target: '1', sourceHandle: null, targetHandle: null },
+];
+
+// Name and variables of a new flow, as `createFlowDocument` sets them
+const initialFields: FlowHistoryFields = { name: 'Untitled flow', variables: [] };
+
+type SidePanelTab = 'nodes' | 'problems' | 'variables' | 'outline';
+
+// Offset for duplicated nodes so they don't cover the originals
+const DUPLICATE_OFFSET = { x: 40, y: 40 };
+
+// Initial size of added nodes that have one, for finding them a free spot
+const ADDED_NODE_SIZES: Record<string, { width: number; height: number }> = {
+  noteNode: DEFAULT_NOTE_SIZE,
+  groupNode: DEFAULT_GROUP_SIZE,
+};
+
+// Notes are hidden by the "hide notes" toggle, the contents of collapsed frames by their frame
+const shouldHide = (node: Node, nodesById: Map<string, Node>, notesHidden: boolean) =>
+  (notesHidden && isNoteNode(node)) || isInCollapsedGroup(node, nodesById);
+
+// Recently edited flows offered by the command palette
+const RECENT_FLOW_LIMIT = 5;
+
+// Keyboard shortcuts and clipboard events inside text fields keep their native behavior
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Arrow keys on the canvas and where they move the selection
+const NAVIGATION_KEYS: Record<string, NavigationDirection> = {
+  ArrowRight: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
 
-export const FlowBuilder: React.FC = () => {
+// Announced when there is nothing to move to
+const NAVIGATION_DEAD_ENDS: Record<NavigationDirection, string> = {
+  next: 'No next node',
+  previous: 'No previous node',
+  up: 'No other branches here',
+  down: 'No other branches here',
+};
+
+// A copy of a node or edge with a screen reader label. Copies are reused while the element and
+// its label are unchanged, so React Flow doesn't re-render every node on each drag frame
+const withAriaLabel = <T extends Node | Edge>(cache: WeakMap<T, T>, element: T, ariaLabel: string) => {
+  const cached = cache.get(element);
+  if (cached?.ariaLabel === ariaLabel) {
+    return cached;
+  }
+  const labelled = { ...element, ariaLabel };
+  cache.set(element, labelled);
+  return labelled;
+};
+
+// Identities of node data objects; edits replace a node's data, drags and selection keep it
+const dataIds = new WeakMap<object, number>();
+let nextDataId = 0;
+const getDataId = (data: object) => {
+  let id = dataIds.get(data);
+  if (id === undefined) {
+    id = ++nextDataId;
+    dataIds.set(data, id);
+  }
+  return id;
+};
+
+// Everything about the nodes except what dragging, resizing and selecting change
+const getStructureKey = (nodes: Node[]) =>
+  nodes
+    .map((node) => JSON.stringify([node.id, node.type, node.parentId ?? null, Boolean(node.hidden), getDataId(node.data)]))
+    .join('\n');
+
+// Everything a save persists except the viewport, for detecting unsaved edits
+const getFlowContent = (nodes: Node[], edges: Edge[], { name, variables }: FlowHistoryFields) =>
+  JSON.stringify({ name, nodes: toFlowNodes(nodes), edges: toFlowEdges(edges), variables });
+
+interface FlowBuilderProps {
+  flowId: string;
+}
+
+const FlowBuilderCanvas: React.FC<FlowBuilderProps> = ({ flowId }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
-  const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [flowDocument, setFlowDocument] = useState<FlowDocument>(() => createFlowDocument(flowId));
+  // Viewport as of the last pan or zoom, for the live document
+  const [currentViewport, setCurrentViewport] = useState<Viewport>(() => getDocumentViewport(flowDocument));
+  const [pendingImport, setPendingImport] = useState<FlowDocument | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isWhatsAppExportOpen, setIsWhatsAppExportOpen] = useState(false);
+  const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+  const [sidePanelTab, setSidePanelTab] = useState<SidePanelTab>('nodes');
+  const [notesHidden, setNotesHidden] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+  const [findOptions, setFindOptions] = useState<SearchOptions>({
+    query: '',
+    matchCase: false,
+    wholeWord: false,
+    useRegex: false,
+  });
+  // Node the keyboard "connect to" dialog connects from
+  const [connectSourceId, setConnectSourceId] = useState<string | null>(null);
+  // Latest message for screen readers (connections, deletions, dead ends)
+  const [announcement, setAnnouncement] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const settingsPanelRef = useRef<HTMLDivElement>(null);
+  // Node the keyboard selection came from, so Left and Up/Down stay on the path taken
+  const navigationParentRef = useRef<string>();
+  const nodeLabelCache = useRef(new WeakMap<Node, Node>());
+  const edgeLabelCache = useRef(new WeakMap<Edge, Edge>());
+  const cursorRef = useRef<{ x: number; y: number } | null>(null);
+  // Where the command palette adds nodes: the cursor (or view center) when it was opened
+  const paletteAnchorRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+  const navigate = useNavigate();
+  const { getViewport, setViewport, fitView, screenToFlowPosition, deleteElements } = useReactFlow();
+
+  const flowQuery = useFlowQuery(flowId);
+  const saveMutation = useSaveFlowMutation();
+  const hasHydrated = useRef(false);
+  // Persisted content as of the last load or save; null while loading
+  const [savedContent, setSavedContent] = useState<string | null>(null);
+
+  const setHistoryFields = useCallback(
+    (fields: FlowHistoryFields) => setFlowDocument((current) => ({ ...current, ...fields })),
+    []
+  );
+  const { takeSnapshot, undo, redo, canUndo, canRedo } = useFlowHistory({
+    nodes,
+    edges,
+    name: flowDocument.name,
+    variables: flowDocument.variables,
+    setNodes,
+    setEdges,
+    setFields: setHistoryFields,
+  });
+  const { autoLayout } = useAutoLayout(takeSnapshot);
+
+  // The nodes as of their last change other than a drag, resize or selection. The analysis and
+  // everything else that only reads node data uses these, so it isn't redone on every drag frame.
+  // Their positions can be out of date
+  const structureKey = useMemo(() => getStructureKey(nodes), [nodes]);
+  const [structure, setStructure] = useState({ key: structureKey, nodes });
+  if (structure.key !== structureKey) {
+    setStructure({ key: structureKey, nodes });
+  }
+  const structuralNodes = structure.key === structureKey ? structure.nodes : nodes;
+
+  // The live document is rendered at low priority, behind drag frames
+  const deferredNodes = useDeferredValue(nodes);
+
+  // Other flows of the workspace, for checking Sub-flow calls; unknown until listed
+  const flowListQuery = useFlowListQuery();
+  const workspace = useMemo(
+    () => (flowListQuery.data ? { flowId, flows: flowListQuery.data } : undefined),
+    [flowId, flowListQuery.data]
+  );
+
+  // Structural problems, recomputed on every edit (not on drags); shared by the Problems panel, node badges and stats
+  const diagnostics = useMemo(
+    () => analyzeFlow(structuralNodes, edges, flowDocument.variables, workspace),
+    [structuralNodes, edges, flowDocument.variables, workspace]
+  );
+  // Messages WhatsApp would reject; listed apart from the flow's problems and only blocking the WhatsApp export
+  const channelDiagnostics = useMemo(() => analyzeWhatsAppLimits(structuralNodes), [structuralNodes]);
+
+  const diagnosticsByNode = useMemo(() => {
+    const byNode = new Map<string, FlowDiagnostic[]>();
+    diagnostics.forEach((diagnostic) => {
+      if (diagnostic.nodeId) {
+        byNode.set(diagnostic.nodeId, [...(byNode.get(diagnostic.nodeId) ?? []), diagnostic]);
+      }
+    });
+    return byNode;
+  }, [diagnostics]);
+
+  // Jump nodes per target, for the markers on target nodes
+  const jumpSourcesByTarget = useMemo(() => getJumpSourcesByTarget(structuralNodes), [structuralNodes]);
+
+  // Keep hidden nodes in line with the "hide notes" toggle and collapsed frames, including nodes
+  // restored by undo or pasted. Hidden nodes are deselected so keyboard deletes can't reach them
+  useEffect(() => {
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    if (!nodes.some((node) => Boolean(node.hidden) !== shouldHide(node, nodesById, notesHidden))) {
+      return;
+    }
+    setNodes((nds) => {
+      const currentById = new Map(nds.map((node) => [node.id, node]));
+      return nds.map((node) => {
+        const hidden = shouldHide(node, currentById, notesHidden);
+        return Boolean(node.hidden) === hidden ? node : { ...node, hidden, selected: hidden ? false : node.selected };
+      });
+    });
+  }, [nodes, notesHidden, setNodes]);
+
+  // Edges as drawn: edges to the contents of collapsed frames end at the frame
+  const canvasEdges = useMemo(() => {
+    const nodesById = new Map(structuralNodes.map((node) => [node.id, node]));
+    return getCanvasEdges(structuralNodes, edges).map((edge) =>
+      withAriaLabel(edgeLabelCache.current, edge, describeConnection(edge, nodesById))
+    );
+  }, [structuralNodes, edges]);
+
+  // Screen reader names of the nodes: their type, connected outputs and problems
+  const nodeDescriptions = useMemo(
+    () =>
+      new Map(
+        structuralNodes.map((node) => [node.id, describeNode(node, edges, diagnosticsByNode.get(node.id)?.length)])
+      ),
+    [structuralNodes, edges, diagnosticsByNode]
+  );
+
+  // Nodes as drawn, named for screen readers
+  const canvasNodes = useMemo(
+    () => nodes.map((node) => withAriaLabel(nodeLabelCache.current, node, nodeDescriptions.get(node.id) ?? node.id)),
+    [nodes, nodeDescriptions]
+  );
+
+  // Nodes that can be searched for and jumped to; hidden notes are left out
+  const searchableNodes = useMemo(
+    () => structuralNodes.filter((node) => !(notesHidden && isNoteNode(node))),
+    [structuralNodes, notesHidden]
+  );
+
+  // Find and replace: matches of the open search, and their nodes for the canvas highlight
+  const findPattern = useMemo(() => buildSearchPattern(findOptions), [findOptions]);
+  const searchMatches = useMemo(
+    () => (isFindOpen ? findMatches(searchableNodes, findPattern.pattern) : []),
+    [isFindOpen, searchableNodes, findPattern]
+  );
+  const searchMatchIds = useMemo(() => new Set(searchMatches.map((match) => match.nodeId)), [searchMatches]);
+
+  // Open the find and replace panel, or focus its search field when it is already open
+  const openFind = useCallback(() => {
+    setIsFindOpen(true);
+    setFindFocusRequest((request) => request + 1);
+  }, []);
+
+  // Replace one match, or all of them, as a single undo step
+  const replaceMatches = useCallback((replacement: string, match?: SearchMatch) => {
+    if (!findPattern.pattern) {
+      return;
+    }
+    const changes = getReplacements(searchableNodes, findPattern.pattern, replacement, findOptions.useRegex, match);
+    if (changes.size === 0) {
+      return;
+    }
+
+    takeSnapshot();
+    setNodes((nds) => nds.map((n) => (changes.has(n.id) ? { ...n, data: { ...n.data, ...changes.get(n.id) } } : n)));
+    if (!match) {
+      toast({
+        title: "Replaced",
+        description: `Replaced ${searchMatches.length} match${searchMatches.length === 1 ? '' : 'es'} in ${changes.size} node${changes.size === 1 ? '' : 's'}.`,
+      });
+    }
+  }, [searchableNodes, findPattern, findOptions.useRegex, searchMatches.length, setNodes, takeSnapshot]);
+
+  // Show or hide all notes; an inspected note is closed when notes are hidden
+  const toggleNotes = useCallback(() => {
+    if (!notesHidden && selectedNodeId && nodes.some((node) => node.id === selectedNodeId && isNoteNode(node))) {
+      setSelectedNodeId(null);
+    }
+    setNotesHidden((hidden) => !hidden);
+  }, [notesHidden, selectedNodeId, nodes]);
+
+  // Derive the inspected node from state so undo/redo is reflected in the settings panel
+  const selectedNode = useMemo(
+    () => nodes.find((node) => node.id === selectedNodeId) ?? null,
+    [nodes, selectedNodeId]
+  );
+  const connectSource = useMemo(
+    () => nodes.find((node) => node.id === connectSourceId) ?? null,
+    [nodes, connectSourceId]
+  );
+
+  // Hydrate the canvas once from storage; later cache updates come from our own saves
+  useEffect(() => {
+    if (hasHydrated.current || !flowQuery.isSuccess) {
+      return;
+    }
+    hasHydrated.current = true;
+
+    const storedDocument = flowQuery.data;
+    if (storedDocument) {
+      const flow = fromFlowDocument(storedDocument);
+      setFlowDocument(storedDocument);
+      setNodes(flow.nodes);
+      setEdges(flow.edges);
+      setViewport(getDocumentViewport(storedDocument));
+      setCurrentViewport(getDocumentViewport(storedDocument));
+      setSavedContent(getFlowContent(flow.nodes, flow.edges, storedDocument));
+    } else {
+      setSavedContent(getFlowContent(initialNodes, initialEdges, initialFields));
+    }
+  }, [flowQuery.isSuccess, flowQuery.data, setNodes, setEdges, setViewport]);
+
+  const flowContent = useMemo(
+    () => getFlowContent(nodes, edges, flowDocument),
+    [nodes, edges, flowDocument]
+  );
+  const isDirty = savedContent !== null && savedContent !== flowContent;
+  const blocker = useUnsavedChangesGuard(isDirty);
+
+  // Surface load failures (including invalid documents); the starter flow stays on the canvas
+  useEffect(() => {
+    if (flowQuery.error) {
+      setSavedContent(getFlowContent(initialNodes, initialEdges, initialFields));
+      toast({
+        title: "Load Error",
+        description: flowQuery.error.message,
+        variant: "destructive",
+      });
+    }
+  }, [flowQuery.error]);
 
   // Handle new connections between nodes
   const onConnect: OnConnect = useCallback(
     (params: Connection) => {
-      // Validate: only one edge can originate from a source handle
+      // Validate: only one edge can originate from a source handle (the default handle is `null` or missing)
       const existingEdge = edges.find(
-        (edge) => edge.source === params.source && edge.sourceHandle === params.sourceHandle
+        (edge) => edge.source === params.source && (edge.sourceHandle ?? null) === (params.sourceHandle ?? null)
       );
       
       if (existingEdge) {
@@ -66,41 +480,332 @@ export const FlowBuilder: React.FC = () => {
         return;
       }
 
+      takeSnapshot();
       setEdges((eds) => addEdge(params, eds));
+
+      const source = nodes.find((node) => node.id === params.source);
+      const target = nodes.find((node) => node.id === params.target);
+      if (source && target) {
+        setAnnouncement(`Connected ${getNodeName(source)} to ${getNodeName(target)}`);
+      }
     },
-    [edges, setEdges]
+    [nodes, edges, setEdges, takeSnapshot]
   );
 
+  // Record deletions (keyboard or programmatic) as one undo step
+  const onBeforeDelete: OnBeforeDelete = useCallback(async () => {
+    takeSnapshot();
+    return true;
+  }, [takeSnapshot]);
+
+  // Move nodes left behind by a deleted frame out of it, and tell screen reader users what was removed
+  const onDelete: OnDelete = useCallback(({ nodes: deletedNodes, edges: deletedEdges }) => {
+    setNodes((nds) => releaseFromRemovedGroups(nds, deletedNodes));
+
+    const parts = [
+      deletedNodes.length === 1 ? getNodeName(deletedNodes[0]) : deletedNodes.length > 1 && `${deletedNodes.length} nodes`,
+      deletedEdges.length > 0 && `${deletedEdges.length} connection${deletedEdges.length === 1 ? '' : 's'}`,
+    ].filter(Boolean);
+    setAnnouncement(`Deleted ${parts.join(' and ')}`);
+  }, [setNodes]);
+
+  // Record the position before a drag starts
+  const onNodeDragStart = useCallback(() => {
+    takeSnapshot();
+  }, [takeSnapshot]);
+
+  // Dropping nodes on a frame puts them into it; dropping them elsewhere takes them out (same undo step as the drag)
+  const onSelectionDragStop = useCallback((_: React.MouseEvent, draggedNodes: Node[]) => {
+    setNodes((nds) => reparentDroppedNodes(nds, draggedNodes.map((node) => node.id)));
+  }, [setNodes]);
+  const onNodeDragStop = useCallback((event: React.MouseEvent, _: Node, draggedNodes: Node[]) => {
+    onSelectionDragStop(event, draggedNodes);
+  }, [onSelectionDragStop]);
+
   // Handle node selection
   const onNodeClick = useCallback((_: React.MouseEvent, node: Node) => {
-    setSelectedNode(node);
+    setSelectedNodeId(node.id);
+  }, []);
+
+  // Keep track of the viewport once panning or zooming ends
+  const onMoveEnd: OnMoveEnd = useCallback((_event, viewport) => {
+    setCurrentViewport(viewport);
   }, []);
 
   // Handle clicking on empty canvas
   const onPaneClick = useCallback(() => {
-    setSelectedNode(null);
+    setSelectedNodeId(null);
   }, []);
 
-  // Update selected node's data
-  const updateNodeData = useCallback((nodeId: string, newData: Partial<TextNodeData>) => {
+  // Select a node from outside the canvas (e.g. the Problems panel) and bring it into view.
+  // A collapsed frame around the node is expanded first (as its own undo step). Like `toggleGroup`,
+  // this is shared with the nodes through the editor context and stays the same while dragging
+  const focusNode = useCallback((nodeId: string) => {
+    const parentId = structuralNodes.find((n) => n.id === nodeId)?.parentId;
+    const expandId = isCollapsedGroup(structuralNodes.find((n) => n.id === parentId)) ? parentId : undefined;
+    if (expandId) {
+      takeSnapshot();
+    }
+
+    setSelectedNodeId(nodeId);
+    setNodes((nds) => nds.map((n) => {
+      const selected = n.id === nodeId;
+      if (n.id === expandId) {
+        return { ...n, selected, data: { ...n.data, collapsed: false } };
+      }
+      if (expandId && n.parentId === expandId) {
+        return { ...n, selected, hidden: false };
+      }
+      return n.selected === selected ? n : { ...n, selected };
+    }));
+
+    // Revealed nodes need to be rendered before React Flow can zoom to them
+    const reveal = () => fitView({ nodes: [{ id: nodeId }], padding: 0.5, maxZoom: 1.25, duration: 300 });
+    if (expandId) {
+      window.requestAnimationFrame(reveal);
+    } else {
+      reveal();
+    }
+  }, [structuralNodes, setNodes, fitView, takeSnapshot]);
+
+  // Collapse or expand a frame. The size the resizer gave the node is dropped so the
+  // collapsed summary box (and later the expanded frame) sizes itself
+  const toggleGroup = useCallback((groupId: string) => {
+    const group = structuralNodes.find((n) => n.id === groupId);
+    if (!group || !isGroupNode(group)) {
+      return;
+    }
+    const collapsed = !isCollapsedGroup(group);
+
+    takeSnapshot();
+    setNodes((nds) => nds.map((n) =>
+      n.id === groupId
+        ? { ...n, width: undefined, height: undefined, style: undefined, data: { ...n.data, collapsed } }
+        : n
+    ));
+    if (collapsed) {
+      setSelectedNodeId((current) => (structuralNodes.find((n) => n.id === current)?.parentId === groupId ? null : current));
+    }
+  }, [structuralNodes, setNodes, takeSnapshot]);
+
+  // Put the selected nodes into a new frame (Ctrl+G) and inspect it, so it can be named right away
+  const groupSelection = useCallback(() => {
+    const selectedIds = nodes.filter((n) => n.selected && canBeGrouped(n)).map((n) => n.id);
+    if (selectedIds.length === 0) {
+      return;
+    }
+    const groupId = createNodeId();
+
+    takeSnapshot();
     setNodes((nds) =>
-      nds.map((node) =>
-        node.id === nodeId ? { ...node, data: { ...node.data, ...newData } } : node
+      groupNodes(nds, selectedIds, { id: groupId, data: createDefaultNodeData('groupNode') }).map((n) =>
+        n.selected === (n.id === groupId) ? n : { ...n, selected: n.id === groupId }
       )
     );
-    
-    // Update selected node if it's the one being edited
-    if (selectedNode?.id === nodeId) {
-      setSelectedNode((prev) => prev ? { ...prev, data: { ...prev.data, ...newData } } : null);
+    setSelectedNodeId(groupId);
+  }, [nodes, setNodes, takeSnapshot]);
+
+  // Remove frames but keep their contents (Ctrl+Shift+G for the selected frames)
+  const ungroup = useCallback((groupIds: string[]) => {
+    if (groupIds.length === 0) {
+      return;
+    }
+
+    takeSnapshot();
+    setNodes((nds) => groupIds.reduce((result, groupId) => ungroupNodes(result, groupId), nds));
+    setSelectedNodeId((current) => (current && groupIds.includes(current) ? null : current));
+  }, [setNodes, takeSnapshot]);
+
+  // Give a node keyboard focus once it is rendered (it may just have been revealed from a collapsed frame).
+  // The canvas must not scroll, React Flow positions nodes itself
+  const focusNodeElement = useCallback((nodeId: string) => {
+    window.requestAnimationFrame(() => {
+      canvasRef.current
+        ?.querySelector<HTMLElement>(`.react-flow__node[data-id="${CSS.escape(nodeId)}"]`)
+        ?.focus({ preventScroll: true });
+    });
+  }, []);
+
+  // Walk the flow from a node with the arrow keys; without a node, start at the Start node
+  const moveSelection = useCallback((currentId: string | null, direction: NavigationDirection) => {
+    const start = nodes.find(isStartNode);
+    const target = currentId
+      ? getNavigationTarget(nodes, edges, currentId, direction, navigationParentRef.current)
+      : start && { nodeId: start.id, parentId: undefined };
+    if (!target) {
+      setAnnouncement(NAVIGATION_DEAD_ENDS[direction]);
+      return;
+    }
+
+    navigationParentRef.current = target.parentId;
+    focusNode(target.nodeId);
+    focusNodeElement(target.nodeId);
+  }, [nodes, edges, focusNode, focusNodeElement]);
+
+  // Inspect a node from the keyboard, with the first field of its settings focused
+  const editNode = useCallback((nodeId: string) => {
+    setSelectedNodeId(nodeId);
+    window.requestAnimationFrame(() => {
+      settingsPanelRef.current?.querySelector<HTMLElement>('input, textarea, [role="combobox"]')?.focus();
+    });
+  }, []);
+
+  // Connect a node to another one without dragging (C on the canvas, or the command palette)
+  const connectFrom = useCallback((nodeId: string) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    if (!node || getSourceHandles(node).length === 0) {
+      toast({
+        title: "Connection Error",
+        description: "This node has no outputs to connect.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setConnectSourceId(nodeId);
+  }, [nodes]);
+
+  const editorContext = useMemo<FlowEditorContextValue>(
+    () => ({ takeSnapshot, activeNodeId, diagnosticsByNode, jumpSourcesByTarget, focusNode, toggleGroup, searchMatchIds }),
+    [takeSnapshot, activeNodeId, diagnosticsByNode, jumpSourcesByTarget, focusNode, toggleGroup, searchMatchIds]
+  );
+
+  // Jump to whatever a diagnostic points at
+  const selectDiagnostic = useCallback((diagnostic: FlowDiagnostic) => {
+    if (diagnostic.nodeId) {
+      focusNode(diagnostic.nodeId);
+    } else if (diagnostic.code === 'invalid_variable') {
+      setSidePanelTab('variables');
+    }
+  }, [focusNode]);
+
+  // Replace the variables registry (one undo step, or one per field being typed in)
+  const updateVariables = useCallback((variables: FlowVariable[], coalesceKey?: string) => {
+    takeSnapshot(coalesceKey);
+    setFlowDocument((current) => ({ ...current, variables }));
+  }, [takeSnapshot]);
+
+  // Variable names offered for `{{variable}}` placeholders
+  const knownVariables = useMemo(
+    () => getKnownVariableNames(flowDocument.variables, structuralNodes),
+    [flowDocument.variables, structuralNodes]
+  );
+
+  // Show a side panel tab in place of the node inspector
+  const showPanel = useCallback((tab: SidePanelTab) => {
+    setSelectedNodeId(null);
+    setSidePanelTab(tab);
+  }, []);
+
+  // Show the Problems panel in place of the node inspector
+  const openProblems = useCallback(() => showPanel('problems'), [showPanel]);
+
+  // Update a node's data; consecutive edits of the same node coalesce into one undo step
+  const updateNodeData = useCallback((nodeId: string, newData: Record<string, unknown>) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      return;
     }
-  }, [setNodes, selectedNode]);
+    const updatedNode = { ...node, data: { ...node.data, ...newData } };
+
+    takeSnapshot(`data:${nodeId}`);
+    setNodes((nds) => nds.map((n) => (n.id === nodeId ? { ...n, data: updatedNode.data } : n)));
+
+    // Drop edges whose source handle no longer exists (e.g. a removed branch)
+    const handleIds = new Set(getSourceHandles(updatedNode).map((handle) => handle.id));
+    setEdges((eds) => {
+      const remaining = eds.filter((edge) => edge.source !== nodeId || handleIds.has(edge.sourceHandle ?? null));
+      return remaining.length === eds.length ? eds : remaining;
+    });
+  }, [nodes, setNodes, setEdges, takeSnapshot]);
 
-  // Handle drop on canvas
+  // Add new node to the flow. Dropped nodes go exactly where they were dropped;
+  // clicked nodes follow the single selected node (connected from its first free
+  // branch) or otherwise land in a free spot in the middle of the view.
+  // Nodes join the frame of the node they follow or are dropped on
+  const addNode = useCallback((type: string, position?: { x: number; y: number }) => {
+    const selected = nodes.filter((n) => n.selected);
+    const anchor = !position && selected.length === 1 ? selected[0] : undefined;
+    const parentId = anchor && type !== 'groupNode' ? anchor.parentId : undefined;
+
+    let placement = position;
+    if (!placement) {
+      const bounds = canvasRef.current?.getBoundingClientRect();
+      const center = bounds
+        ? screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 })
+        : { x: 0, y: 0 };
+      const desired = anchor
+        ? getPositionRightOf(anchor)
+        : { x: center.x - DEFAULT_NODE_SIZE.width / 2, y: center.y - DEFAULT_NODE_SIZE.height / 2 };
+      // Positions inside a frame are relative to it, so only its other contents can be in the way
+      const siblings = nodes.filter((n) => n.parentId === parentId);
+      placement = findFreePosition(desired, siblings, ADDED_NODE_SIZES[type] ?? DEFAULT_NODE_SIZE);
+    }
+
+    const newNode: Node = {
+      id: createNodeId(),
+      type,
+      position: placement,
+      data: createDefaultNodeData(type),
+      ...(parentId ? { parentId } : {}),
+    };
+    // Notes and frames have no handles, so they are placed next to the selection but not connected
+    const handle = anchor && !isAnnotationNode(newNode) && getFreeSourceHandle(anchor, edges);
+    if (isNoteNode(newNode)) {
+      setNotesHidden(false);
+    }
+    const addTo = (nds: Node[]) => {
+      const added = [...nds, newNode];
+      return sortGroupsFirst(position ? reparentDroppedNodes(added, [newNode.id]) : added);
+    };
+
+    takeSnapshot();
+    if (anchor) {
+      // Select the new node so repeated clicks build a chain
+      setNodes((nds) => addTo(nds.map((n) => (n.selected ? { ...n, selected: false } : n))).map((n) =>
+        n.id === newNode.id ? { ...n, selected: true } : n
+      ));
+    } else {
+      setNodes(addTo);
+    }
+    if (anchor && handle) {
+      setEdges((eds) =>
+        addEdge({ source: anchor.id, sourceHandle: handle.id, target: newNode.id, targetHandle: null }, eds)
+      );
+    }
+  }, [nodes, edges, setNodes, setEdges, takeSnapshot, screenToFlowPosition]);
+
+  // Read a dropped or picked file and ask how to apply it
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      setPendingImport(await readFlowDocumentFile(file));
+    } catch (error) {
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "The file could not be imported.",
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  // Handle drop on canvas - either a node type from the panel or a flow file
   const onDrop = useCallback(
     (event: React.DragEvent) => {
       event.preventDefault();
 
-      const reactFlowBounds = event.currentTarget.getBoundingClientRect();
+      const file = event.dataTransfer.files[0];
+      if (file) {
+        if (isFlowFile(file)) {
+          handleImportFile(file);
+        } else {
+          toast({
+            title: "Import Error",
+            description: "Only .json flow files can be imported.",
+            variant: "destructive",
+          });
+        }
+        return;
+      }
+
       const type = event.dataTransfer.getData('application/reactflow');
 
       // Check if the dropped element is a valid node type
@@ -108,156 +813,724 @@ export const FlowBuilder: React.FC = () => {
         return;
       }
 
-      // Calculate position relative to the react flow canvas
-      const position = {
-        x: event.clientX - reactFlowBounds.left,
-        y: event.clientY - reactFlowBounds.top,
-      };
+      // Convert the drop point to flow coordinates so pan and zoom are respected
+      const position = screenToFlowPosition({ x: event.clientX, y: event.clientY });
 
       addNode(type, position);
     },
-    [nodes.length]
+    [addNode, handleImportFile, screenToFlowPosition]
   );
 
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
-    event.dataTransfer.dropEffect = 'move';
+    event.dataTransfer.dropEffect = event.dataTransfer.types.includes('Files') ? 'copy' : 'move';
   }, []);
 
-  // Add new node to the flow
-  const addNode = useCallback((type: string, position: { x: number; y: number }) => {
-    const newNode: Node = {
-      id: `${nodes.length + 1}-${Date.now()}`,
-      type,
-      position,
-      data: {
-        text: type === 'textNode' ? 'Click to edit this message...' : '',
-        label: type === 'textNode' ? 'Message' : 'Node',
-      },
-    };
-    
-    setNodes((nds) => [...nds, newNode]);
-  }, [nodes.length, setNodes]);
+  // Replace the current flow with an imported document, keeping this flow's identity
+  const replaceWithImport = useCallback((imported: FlowDocument) => {
+    const flow = fromFlowDocument(imported);
+    takeSnapshot();
+    setFlowDocument((current) => ({
+      ...imported,
+      id: current.id,
+      metadata: { ...imported.metadata, createdAt: current.metadata.createdAt },
+    }));
+    setNodes(flow.nodes);
+    setEdges(flow.edges);
+    setSelectedNodeId(null);
+    setPendingImport(null);
+    window.requestAnimationFrame(() => fitView({ padding: 0.1 }));
+  }, [setNodes, setEdges, fitView, takeSnapshot]);
 
-  // Save flow validation
-  const saveFlow = useCallback(() => {
-    if (nodes.length <= 1) {
-      toast({
-        title: "Flow Saved",
-        description: "Your chatbot flow has been saved successfully.",
-      });
+  // Merge an imported document next to the current flow under fresh ids.
+  // The current flow keeps its entry point, so the imported Start node is left out.
+  const mergeImport = useCallback((imported: FlowDocument) => {
+    const { nodes: importedNodes, edges: importedEdges } = fromFlowDocument(imported);
+    const flow = withoutStartNode(importedNodes, importedEdges);
+    const currentBounds = getNodesBounds(nodes);
+    const importedBounds = getNodesBounds(flow.nodes);
+    const offset = currentBounds && importedBounds
+      ? { x: currentBounds.right + 100 - importedBounds.x, y: currentBounds.y - importedBounds.y }
+      : { x: 0, y: 0 };
+    const merged = cloneWithNewIds(flow.nodes, flow.edges, offset);
+
+    takeSnapshot();
+    setFlowDocument((current) => ({ ...current, variables: mergeVariables(current.variables, imported.variables) }));
+    setNodes((nds) => [...nds, ...merged.nodes]);
+    setEdges((eds) => [...eds, ...merged.edges]);
+    setPendingImport(null);
+    window.requestAnimationFrame(() => fitView({ padding: 0.1 }));
+  }, [nodes, setNodes, setEdges, fitView, takeSnapshot]);
+
+  // Add copied nodes as the new selection (one undo step)
+  const insertClones = useCallback((clones: { nodes: Node[]; edges: Edge[] }, variables: FlowVariable[] = []) => {
+    if (clones.nodes.length === 0) {
       return;
     }
 
-    // Check for nodes with empty target handles (no incoming connections)
-    const nodesWithoutTargets = nodes.filter((node) => {
-      const hasIncomingEdge = edges.some((edge) => edge.target === node.id);
-      return !hasIncomingEdge;
+    takeSnapshot();
+    setNodes((nds) => sortGroupsFirst([
+      ...nds.map((n) => (n.selected ? { ...n, selected: false } : n)),
+      ...clones.nodes.map((n) => ({ ...n, selected: true })),
+    ]));
+    setEdges((eds) => [...eds, ...clones.edges]);
+    if (variables.length > 0) {
+      setFlowDocument((current) => ({ ...current, variables: mergeVariables(current.variables, variables) }));
+    }
+  }, [setNodes, setEdges, takeSnapshot]);
+
+  // Duplicate the selection next to itself, keeping the edges between the copies
+  const duplicateSelection = useCallback(() => {
+    const selection = getSelectionContent(nodes, edges, flowDocument.variables);
+    insertClones(cloneWithNewIds(selection.nodes, selection.edges, DUPLICATE_OFFSET));
+  }, [nodes, edges, flowDocument.variables, insertClones]);
+
+  // Where pasted nodes go: at the cursor when it is over the canvas, otherwise the middle of the view
+  const getPastePosition = useCallback(() => {
+    if (cursorRef.current) {
+      return screenToFlowPosition(cursorRef.current);
+    }
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    return bounds
+      ? screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 })
+      : { x: 0, y: 0 };
+  }, [screenToFlowPosition]);
+
+  // Clipboard: the selection is exchanged with the system clipboard as flow JSON,
+  // so it can be pasted into other tabs and flows
+  useEffect(() => {
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isTextInput(event.target) || window.getSelection()?.toString()) {
+        return;
+      }
+      const selection = getSelectionContent(nodes, edges, flowDocument.variables);
+      if (selection.nodes.length === 0) {
+        return;
+      }
+
+      event.preventDefault();
+      event.clipboardData?.setData('text/plain', serializeClipboard(selection));
+      if (event.type === 'cut') {
+        deleteElements({ nodes: selection.nodes });
+      }
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const text = event.clipboardData?.getData('text/plain');
+      if (isTextInput(event.target) || !text) {
+        return;
+      }
+
+      try {
+        const content = parseClipboard(text);
+        if (!content) {
+          return;
+        }
+        event.preventDefault();
+
+        // Keep the copied layout, with its top-left corner at the paste position
+        const bounds = getNodesBounds(content.nodes);
+        const position = getPastePosition();
+        const offset = bounds ? { x: position.x - bounds.x, y: position.y - bounds.y } : { x: 0, y: 0 };
+        insertClones(cloneWithNewIds(content.nodes, content.edges, offset), content.variables);
+      } catch (error) {
+        toast({
+          title: "Paste Error",
+          description: error instanceof Error ? error.message : "The clipboard content could not be pasted.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    window.document.addEventListener('copy', handleCopy);
+    window.document.addEventListener('cut', handleCopy);
+    window.document.addEventListener('paste', handlePaste);
+    return () => {
+      window.document.removeEventListener('copy', handleCopy);
+      window.document.removeEventListener('cut', handleCopy);
+      window.document.removeEventListener('paste', handlePaste);
+    };
+  }, [nodes, edges, flowDocument.variables, deleteElements, getPastePosition, insertClones]);
+
+  // Open or close the command palette, remembering where nodes added from it should go
+  const togglePalette = useCallback(() => {
+    if (!isPaletteOpen) {
+      paletteAnchorRef.current = getPastePosition();
+    }
+    setIsPaletteOpen(!isPaletteOpen);
+  }, [isPaletteOpen, getPastePosition]);
+
+  // Keyboard shortcuts for history, duplication, layout and frames; text fields keep their native undo.
+  // The command palette (Ctrl+K) and find and replace (Ctrl+F / Ctrl+H) open from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const modifierKey = event.ctrlKey || event.metaKey ? event.key.toLowerCase() : '';
+      if (modifierKey === 'k') {
+        event.preventDefault();
+        togglePalette();
+        return;
+      }
+      if (modifierKey === 'f' || modifierKey === 'h') {
+        event.preventDefault();
+        openFind();
+        return;
+      }
+      if (isTextInput(event.target)) {
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      } else if (key === 'd') {
+        event.preventDefault();
+        duplicateSelection();
+      } else if (key === 'l' && event.shiftKey) {
+        event.preventDefault();
+        autoLayout();
+      } else if (key === 'g' && event.shiftKey) {
+        event.preventDefault();
+        ungroup(nodes.filter((n) => n.selected && isGroupNode(n)).map((n) => n.id));
+      } else if (key === 'g') {
+        event.preventDefault();
+        groupSelection();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [nodes, undo, redo, duplicateSelection, autoLayout, groupSelection, ungroup, togglePalette, openFind]);
+
+  // Keyboard navigation on the focused node (or the page, acting on the inspected node): arrow keys
+  // follow the flow, Enter edits the node and C connects it. Handled before React Flow, which would
+  // move selected nodes with the arrow keys; Alt+arrows still do
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target;
+      if (!(target instanceof HTMLElement) || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+      const focusedNodeId = target.matches('.react-flow__node') ? target.dataset.id ?? null : null;
+      if (!focusedNodeId && target !== document.body) {
+        return;
+      }
+      const currentId = focusedNodeId ?? selectedNodeId;
+
+      const direction = NAVIGATION_KEYS[event.key];
+      if (direction) {
+        event.preventDefault();
+        event.stopPropagation();
+        moveSelection(currentId, direction);
+      } else if (event.key === 'Enter' && focusedNodeId) {
+        editNode(focusedNodeId);
+      } else if (event.key.toLowerCase() === 'c' && !event.shiftKey && currentId) {
+        event.preventDefault();
+        connectFrom(currentId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [selectedNodeId, moveSelection, editNode, connectFrom]);
+
+  // Download the current canvas as a flow document
+  const exportFlow = useCallback(() => {
+    downloadFlowDocument(toFlowDocument(flowDocument, nodes, edges, getViewport()));
+  }, [flowDocument, nodes, edges, getViewport]);
+
+  // Persist the flow to the configured repository
+  const persistFlow = useCallback(() => {
+    const nextDocument = toFlowDocument(flowDocument, nodes, edges, getViewport());
+    const nextContent = flowContent;
+
+    saveMutation.mutate(nextDocument, {
+      onSuccess: () => {
+        // Only take over what the save itself set; name or variable edits made meanwhile are kept
+        setFlowDocument((current) => ({ ...current, id: nextDocument.id, metadata: nextDocument.metadata }));
+        setSavedContent(nextContent);
+        toast({
+          title: "Flow Saved",
+          description: "Your chatbot flow has been saved successfully.",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Save Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
     });
+  }, [saveMutation, flowDocument, nodes, edges, flowContent, getViewport]);
 
-    if (nodesWithoutTargets.length > 1) {
+  // Save flow validation - only a valid flow reaches storage
+  const saveFlow = useCallback(() => {
+    const errors = validateFlow(nodes, edges, flowDocument.variables, workspace);
+
+    if (errors.length > 0) {
+      const more = errors.length > 1 ? ` (${errors.length - 1} more issue${errors.length > 2 ? 's' : ''})` : '';
       toast({
         title: "Validation Error",
-        description: "Cannot save flow: More than one node has empty target handles.",
+        description: `Cannot save flow: ${errors[0]}${more}`,
         variant: "destructive",
       });
+      openProblems();
       return;
     }
 
+    persistFlow();
+  }, [nodes, edges, flowDocument.variables, workspace, persistFlow, openProblems]);
+
+  // Report the analyzer's findings on demand (command palette); problems open the Problems panel
+  const validateNow = useCallback(() => {
+    const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+
+    if (diagnostics.length === 0) {
+      toast({
+        title: "No Problems Found",
+        description: "The flow is valid and ready to save.",
+      });
+      return;
+    }
     toast({
-      title: "Flow Saved",
-      description: "Your chatbot flow has been saved successfully.",
+      title: errorCount > 0 ? "Validation Error" : "Validation Warnings",
+      description: `Found ${errorCount} error${errorCount === 1 ? '' : 's'} and ${warningCount} warning${warningCount === 1 ? '' : 's'}.`,
+      variant: errorCount > 0 ? "destructive" : "default",
     });
-  }, [nodes, edges]);
+    openProblems();
+  }, [diagnostics, openProblems]);
 
-  // Calculate statistics for display
+  // Other flows, most recently edited first, for the command palette
+  const recentFlows = useMemo(
+    () =>
+      (flowListQuery.data ?? [])
+        .filter((flow) => flow.id !== flowId)
+        .sort((a, b) => b.metadata.updatedAt.localeCompare(a.metadata.updatedAt))
+        .slice(0, RECENT_FLOW_LIMIT),
+    [flowListQuery.data, flowId]
+  );
+
+  // Current canvas as a document, for consumers that work on FlowDocuments (e.g. the preview runtime)
+  const liveDocument = useMemo(
+    () => toFlowDocument(flowDocument, deferredNodes, edges, currentViewport),
+    [flowDocument, deferredNodes, edges, currentViewport]
+  );
+
+  // Number of nodes selected on the canvas (decides what auto layout applies to)
+  const selectedCount = useMemo(() => nodes.filter((node) => node.selected).length, [nodes]);
+
+  // Calculate statistics for display; notes and frames are annotations, not part of the flow
   const flowStats = useMemo(() => ({
-    nodeCount: nodes.length,
+    nodeCount: withoutAnnotations(structuralNodes).length,
+    noteCount: structuralNodes.filter(isNoteNode).length,
     connectionCount: edges.length,
-    isolatedNodes: nodes.filter(node => 
-      !edges.some(edge => edge.source === node.id || edge.target === node.id)
-    ).length,
-  }), [nodes, edges]);
+    errorCount: diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length,
+    warningCount: diagnostics.filter((diagnostic) => diagnostic.severity === 'warning').length,
+  }), [structuralNodes, edges, diagnostics]);
 
   return (
-    <div className="flex h-screen bg-canvas">
-      {/* Main Flow Canvas */}
-      <div className="flex-1 relative">
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          onNodeClick={onNodeClick}
-          onPaneClick={onPaneClick}
-          onDrop={onDrop}
-          onDragOver={onDragOver}
-          nodeTypes={nodeTypes}
-          fitView
-          fitViewOptions={{ padding: 0.1 }}
-          className="bg-canvas"
+    <FlowEditorContext.Provider value={editorContext}>
+      <div className="flex h-screen bg-canvas">
+        {/* Main Flow Canvas */}
+        <div
+          ref={canvasRef}
+          className="flex-1 relative"
+          onMouseMove={(event) => {
+            cursorRef.current = { x: event.clientX, y: event.clientY };
+          }}
+          onMouseLeave={() => {
+            cursorRef.current = null;
+          }}
         >
-          <Background 
-            variant={BackgroundVariant.Dots} 
-            gap={20} 
-            size={1} 
-            className="bg-canvas-dots opacity-40"
-          />
-          <Controls className="bg-panel-bg border-panel-border shadow-sm" />
-          <MiniMap 
-            className="bg-panel-bg border-panel-border shadow-sm"
-            nodeColor="var(--message-node)"
-            maskColor="rgba(255, 255, 255, 0.8)"
-            pannable
-            zoomable
-          />
-        </ReactFlow>
-
-        {/* Top Action Bar */}
-        <div className="absolute top-4 left-4 z-10">
-          <div className="flex items-center gap-4 bg-panel-bg border border-panel-border rounded-lg px-4 py-2 shadow-sm">
-            <div className="flex items-center gap-2 text-sm text-text-secondary">
-              <MessageSquare className="w-4 h-4" />
-              <span>{flowStats.nodeCount} nodes</span>
+          <ReactFlow
+            nodes={canvasNodes}
+            edges={canvasEdges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            onBeforeDelete={onBeforeDelete}
+            onDelete={onDelete}
+            deleteKeyCode={['Backspace', 'Delete']}
+            onNodeDragStart={onNodeDragStart}
+            onSelectionDragStart={onNodeDragStart}
+            onNodeDragStop={onNodeDragStop}
+            onSelectionDragStop={onSelectionDragStop}
+            onNodeClick={onNodeClick}
+            onPaneClick={onPaneClick}
+            onDrop={onDrop}
+            onDragOver={onDragOver}
+            onMoveEnd={onMoveEnd}
+            nodeTypes={nodeTypes}
+            fitView
+            fitViewOptions={{ padding: 0.1 }}
+            className="bg-canvas"
+            aria-label="Flow canvas"
+            aria-describedby="flow-canvas-help"
+          >
+            <Background 
+              variant={BackgroundVariant.Dots} 
+              gap={20} 
+              size={1} 
+              className="bg-canvas-dots opacity-40"
+            />
+            <Controls className="bg-panel-bg border-panel-border shadow-sm">
+              <ControlButton
+                onClick={toggleNotes}
+                disabled={flowStats.noteCount === 0}
+                title={notesHidden ? `Show notes (${flowStats.noteCount})` : 'Hide notes'}
+                aria-pressed={notesHidden}
+                className={notesHidden ? 'opacity-50' : ''}
+              >
+                <StickyNote />
+              </ControlButton>
+            </Controls>
+            <MiniMap 
+              className="bg-panel-bg border-panel-border shadow-sm"
+              nodeColor={(node) => {
+                if (isGroupNode(node)) {
+                  const color = (node.data as { color?: keyof typeof groupColorStyles }).color;
+                  return (groupColorStyles[color ?? 'gray'] ?? groupColorStyles.gray).minimap;
+                }
+                return isNoteNode(node) ? 'hsl(var(--note-node))' : 'var(--message-node)';
+              }}
+              nodeComponent={MiniMapNode}
+              maskColor="rgba(255, 255, 255, 0.8)"
+              pannable
+              zoomable
+            />
+          </ReactFlow>
+
+          {/* Screen Reader Help and Announcements */}
+          <p id="flow-canvas-help" className="sr-only">
+            Press Tab to move between nodes. The arrow keys follow the connections: Right goes to the next node,
+            Left back to the previous one, Up and Down switch between branches. Press Enter to edit the focused
+            node, C to connect it to another node, Alt with the arrow keys to move it and Delete to remove it.
+          </p>
+          <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+            {announcement}
+          </div>
+          <div className="sr-only" aria-live="polite" aria-atomic="true">
+            {flowStats.errorCount + flowStats.warningCount === 0
+              ? 'No problems'
+              : `${flowStats.errorCount} error${flowStats.errorCount === 1 ? '' : 's'} and ${flowStats.warningCount} warning${flowStats.warningCount === 1 ? '' : 's'}`}
+          </div>
+
+          {/* Find and Replace */}
+          {isFindOpen && (
+            <div className="absolute top-20 left-4 z-10">
+              <FindReplacePanel
+                options={findOptions}
+                onOptionsChange={setFindOptions}
+                matches={searchMatches}
+                error={findPattern.error}
+                nodes={searchableNodes}
+                onSelectNode={focusNode}
+                onReplace={replaceMatches}
+                onClose={() => setIsFindOpen(false)}
+                focusRequest={findFocusRequest}
+              />
             </div>
-            <div className="w-px h-4 bg-border" />
-            <div className="text-sm text-text-secondary">
-              {flowStats.connectionCount} connections
+          )}
+
+          {/* Top Action Bar */}
+          <div className="absolute top-4 left-4 z-10">
+            <div className="flex items-center gap-4 bg-panel-bg border border-panel-border rounded-lg px-4 py-2 shadow-sm">
+              <Link
+                to="/flows"
+                title="All flows"
+                className="flex items-center gap-2 text-sm font-medium text-text-primary hover:underline"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                <span className="max-w-48 truncate">{flowDocument.name}</span>
+              </Link>
+              {isDirty && (
+                <span className="text-xs text-text-muted" title="This flow has unsaved changes">
+                  Unsaved
+                </span>
+              )}
+              <div className="w-px h-4 bg-border" />
+              <div className="flex items-center gap-2 text-sm text-text-secondary">
+                <MessageSquare className="w-4 h-4" />
+                <span>{flowStats.nodeCount} nodes</span>
+              </div>
+              <div className="w-px h-4 bg-border" />
+              <div className="text-sm text-text-secondary">
+                {flowStats.connectionCount} connections
+              </div>
+              {flowStats.errorCount > 0 && (
+                <>
+                  <div className="w-px h-4 bg-border" />
+                  <button
+                    type="button"
+                    onClick={openProblems}
+                    className="flex items-center gap-1 text-sm text-red-600 hover:underline"
+                  >
+                    <AlertCircle className="w-4 h-4" />
+                    <span>{flowStats.errorCount} error{flowStats.errorCount === 1 ? '' : 's'}</span>
+                  </button>
+                </>
+              )}
+              {flowStats.warningCount > 0 && (
+                <>
+                  <div className="w-px h-4 bg-border" />
+                  <button
+                    type="button"
+                    onClick={openProblems}
+                    className="flex items-center gap-1 text-sm text-amber-600 hover:underline"
+                  >
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>{flowStats.warningCount} warning{flowStats.warningCount === 1 ? '' : 's'}</span>
+                  </button>
+                </>
+              )}
             </div>
-            {flowStats.isolatedNodes > 0 && (
-              <>
-                <div className="w-px h-4 bg-border" />
-                <div className="flex items-center gap-1 text-sm text-amber-600">
-                  <AlertCircle className="w-4 h-4" />
-                  <span>{flowStats.isolatedNodes} isolated</span>
-                </div>
-              </>
+          </div>
+
+          {/* File Actions and Save Button */}
+          <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={undo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="bg-panel-bg border-panel-border shadow-sm"
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={redo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="bg-panel-bg border-panel-border shadow-sm"
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={autoLayout}
+              title={`${selectedCount > 1 ? 'Tidy the selected nodes' : 'Tidy the whole flow'} (Ctrl+Shift+L)`}
+              className="bg-panel-bg border-panel-border shadow-sm"
+            >
+              <Network className="w-4 h-4 mr-2" />
+              {selectedCount > 1 ? 'Tidy selection' : 'Tidy'}
+            </Button>
+            {selectedCount > 1 && (
+              <Button
+                variant="outline"
+                onClick={groupSelection}
+                title="Put the selected nodes in a frame (Ctrl+G)"
+                className="bg-panel-bg border-panel-border shadow-sm"
+              >
+                <Frame className="w-4 h-4 mr-2" />
+                Group
+              </Button>
             )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  handleImportFile(file);
+                }
+                event.target.value = '';
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-panel-bg border-panel-border shadow-sm"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="bg-panel-bg border-panel-border shadow-sm">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={exportFlow}>
+                  <FileJson className="w-4 h-4 mr-2" />
+                  Flow document (JSON)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setIsWhatsAppExportOpen(true)}>
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                  WhatsApp messages…
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              onClick={() => setIsPreviewOpen(true)}
+              className="bg-panel-bg border-panel-border shadow-sm"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button onClick={saveFlow} disabled={saveMutation.isPending} className="bg-primary hover:bg-primary-hover text-primary-foreground shadow-sm">
+              <Save className="w-4 h-4 mr-2" />
+              Save Changes
+            </Button>
           </div>
         </div>
 
-        {/* Save Button */}
-        <div className="absolute top-4 right-4 z-10">
-          <Button onClick={saveFlow} className="bg-primary hover:bg-primary-hover text-primary-foreground shadow-sm">
-            <Save className="w-4 h-4 mr-2" />
-            Save Changes
-          </Button>
-        </div>
-      </div>
+        <PreviewSheet
+          open={isPreviewOpen}
+          onOpenChange={setIsPreviewOpen}
+          flowDocument={liveDocument}
+          selectedNodeId={selectedNode && !isAnnotationNode(selectedNode) ? selectedNode.id : null}
+          onActiveNodeChange={setActiveNodeId}
+        />
+
+        <CommandPalette
+          open={isPaletteOpen}
+          onOpenChange={setIsPaletteOpen}
+          nodes={searchableNodes}
+          recentFlows={recentFlows}
+          notesHidden={notesHidden}
+          onAddNode={(type) => addNode(type, paletteAnchorRef.current)}
+          onSelectNode={focusNode}
+          onConnectNode={selectedNode ? () => connectFrom(selectedNode.id) : undefined}
+          onValidate={validateNow}
+          onFind={openFind}
+          onAutoLayout={autoLayout}
+          onExport={exportFlow}
+          onExportWhatsApp={() => setIsWhatsAppExportOpen(true)}
+          onShowPanel={showPanel}
+          onToggleNotes={toggleNotes}
+          onOpenPreview={() => setIsPreviewOpen(true)}
+          onOpenFlow={(id) => navigate(`/flows/${id}`)}
+          onOpenDashboard={() => navigate('/flows')}
+        />
+
+        <WhatsAppExportDialog
+          open={isWhatsAppExportOpen}
+          onOpenChange={setIsWhatsAppExportOpen}
+          flowDocument={liveDocument}
+          channelDiagnostics={channelDiagnostics}
+          diagnostics={diagnostics}
+          onSelectDiagnostic={selectDiagnostic}
+        />
 
-      {/* Right Panel - Nodes or Settings */}
-      <div className="w-80 bg-panel-bg border-l border-panel-border">
-        {selectedNode ? (
-          <SettingsPanel 
-            node={selectedNode} 
-            onUpdateNode={updateNodeData}
-            onClose={() => setSelectedNode(null)}
-          />
-        ) : (
-          <NodesPanel onAddNode={addNode} />
-        )}
+        <ConnectNodeDialog
+          source={connectSource}
+          nodes={searchableNodes}
+          edges={edges}
+          onConnect={(connection) => {
+            setConnectSourceId(null);
+            onConnect(connection);
+          }}
+          onCancel={() => setConnectSourceId(null)}
+        />
+
+        <UnsavedChangesDialog
+          open={blocker.state === 'blocked'}
+          onStay={() => blocker.reset?.()}
+          onLeave={() => blocker.proceed?.()}
+        />
+
+        <ImportFlowDialog
+          importedDocument={pendingImport}
+          currentNodeCount={nodes.length}
+          currentEdgeCount={edges.length}
+          onReplace={replaceWithImport}
+          onMerge={mergeImport}
+          onCancel={() => setPendingImport(null)}
+        />
+
+        {/* Right Panel - Settings, or Nodes / Problems tabs. Escape in the settings returns to the node */}
+        <div
+          ref={settingsPanelRef}
+          className="w-80 bg-panel-bg border-l border-panel-border"
+          onKeyDown={(event) => {
+            if (
+              event.key === 'Escape' &&
+              !event.defaultPrevented &&
+              selectedNodeId &&
+              event.currentTarget.contains(event.target as HTMLElement)
+            ) {
+              focusNodeElement(selectedNodeId);
+            }
+          }}
+        >
+          {selectedNode ? (
+            <SettingsPanel 
+              node={selectedNode} 
+              onUpdateNode={updateNodeData}
+              onClose={() => setSelectedNodeId(null)}
+              variables={knownVariables}
+              flowId={flowId}
+              onUngroup={(groupId) => ungroup([groupId])}
+            />
+          ) : (
+            <Tabs
+              value={sidePanelTab}
+              onValueChange={(value) => setSidePanelTab(value as SidePanelTab)}
+              className="h-full flex flex-col"
+            >
+              <TabsList className="grid grid-cols-4 mx-4 mt-4">
+                <TabsTrigger value="nodes" className="px-2">Nodes</TabsTrigger>
+                <TabsTrigger value="problems" className="gap-1 px-2">
+                  Problems
+                  {diagnostics.length > 0 && (
+                    <span className={`rounded-full px-1.5 text-xs text-white ${flowStats.errorCount > 0 ? 'bg-red-600' : 'bg-amber-500'}`}>
+                      {diagnostics.length}
+                    </span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="variables" className="px-2">Variables</TabsTrigger>
+                <TabsTrigger value="outline" className="px-2">Outline</TabsTrigger>
+              </TabsList>
+              <TabsContent value="nodes" className="flex-1 min-h-0 mt-0">
+                <NodesPanel onAddNode={addNode} />
+              </TabsContent>
+              <TabsContent value="problems" className="flex-1 min-h-0 mt-0">
+                <ProblemsPanel
+                  diagnostics={diagnostics}
+                  channelDiagnostics={channelDiagnostics}
+                  onSelectDiagnostic={selectDiagnostic}
+                />
+              </TabsContent>
+              <TabsContent value="variables" className="flex-1 min-h-0 mt-0">
+                <VariablesPanel variables={flowDocument.variables} onChange={updateVariables} />
+              </TabsContent>
+              <TabsContent value="outline" className="flex-1 min-h-0 mt-0">
+                <OutlinePanel nodes={nodes} onSelectNode={focusNode} onToggleGroup={toggleGroup} />
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
       </div>
-    </div>
+    </FlowEditorContext.Provider>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * FlowBuilder Component
+ *
+ * Entry point of the builder for the flow with the given id. Provides the
+ * React Flow context so the canvas can read and restore the viewport when
+ * loading and saving flows. Render it with `key={flowId}` so switching flows
+ * starts from a fresh editor.
+ */
+export const FlowBuilder: React.FC<FlowBuilderProps> = ({ flowId }) => (
+  <ReactFlowProvider>
+    <FlowBuilderCanvas flowId={flowId} />
+  </ReactFlowProvider>
+);
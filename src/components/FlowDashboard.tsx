@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, CheckCircle2, Copy, MoreHorizontal, Pencil, Plus, Search, Trash2, Workflow } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useDeleteFlowMutation, useFlowListQuery, useSaveFlowMutation } from '@/hooks/use-flow-repository';
+import { FlowDocument, copyFlowDocument, createFlowDocument, fromFlowDocument } from '@/lib/flow/document';
+import { withoutAnnotations } from '@/lib/flow/annotations';
+import { createId } from '@/lib/flow/ids';
+import { validateFlow } from '@/lib/flow/validation';
+import { FlowNameDialog } from './dialogs/FlowNameDialog';
+
+type NameDialogState = { mode: 'create' } | { mode: 'rename'; document: FlowDocument } | null;
+
+// Number of problems that would block saving the stored flow
+const countErrors = (document: FlowDocument, flows: FlowDocument[]) => {
+  const flow = fromFlowDocument(document);
+  return validateFlow(flow.nodes, flow.edges, document.variables, { flowId: document.id, flows }).length;
+};
+
+/**
+ * FlowDashboard Component
+ *
+ * Lists the flows in the configured repository.
+ * Features:
+ * - Name, last edit, node count and validation status per flow
+ * - Search by name
+ * - Create, rename, duplicate and delete; opening a flow goes to its editor route
+ */
+export const FlowDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const flowsQuery = useFlowListQuery();
+  const saveMutation = useSaveFlowMutation();
+  const deleteMutation = useDeleteFlowMutation();
+  const [search, setSearch] = useState('');
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [pendingDelete, setPendingDelete] = useState<FlowDocument | null>(null);
+
+  const flows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (flowsQuery.data ?? [])
+      .filter((document) => document.name.toLowerCase().includes(query))
+      .map((document) => ({ document, errorCount: countErrors(document, flowsQuery.data) }));
+  }, [flowsQuery.data, search]);
+
+  // Save a new or changed document, reporting failures
+  const saveDocument = (document: FlowDocument, onSuccess?: () => void) => {
+    saveMutation.mutate(document, {
+      onSuccess,
+      onError: (error) => {
+        toast({
+          title: "Save Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  // Create an empty flow and open it
+  const createFlow = (name: string) => {
+    const document = createFlowDocument(createId('flow'), name);
+    saveDocument(document, () => navigate(`/flows/${document.id}`));
+    setNameDialog(null);
+  };
+
+  // Rename a flow in place
+  const renameFlow = (document: FlowDocument, name: string) => {
+    saveDocument({ ...document, name, metadata: { ...document.metadata, updatedAt: new Date().toISOString() } });
+    setNameDialog(null);
+  };
+
+  // Store a copy of a flow under a new id
+  const duplicateFlow = (document: FlowDocument) => {
+    saveDocument(copyFlowDocument(document, createId('flow'), `${document.name} (copy)`), () => {
+      toast({
+        title: "Flow Duplicated",
+        description: `"${document.name}" was copied.`,
+      });
+    });
+  };
+
+  // Delete the flow confirmed in the dialog
+  const deleteFlow = () => {
+    if (!pendingDelete) {
+      return;
+    }
+    deleteMutation.mutate(pendingDelete.id, {
+      onError: (error) => {
+        toast({
+          title: "Delete Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-canvas">
+      <div className="max-w-5xl mx-auto px-6 py-10">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-text-primary flex items-center gap-2">
+              <Workflow className="w-6 h-6" />
+              Flows
+            </h1>
+            <p className="text-sm text-text-secondary mt-1">
+              Chatbot flows saved in this workspace
+            </p>
+          </div>
+          <Button
+            onClick={() => setNameDialog({ mode: 'create' })}
+            className="bg-primary hover:bg-primary-hover text-primary-foreground shadow-sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New flow
+          </Button>
+        </div>
+
+        {/* Search */}
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-text-muted" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search flows..."
+            className="pl-9 bg-panel-bg"
+          />
+        </div>
+
+        {/* Flow list */}
+        <div className="bg-panel-bg border border-panel-border rounded-lg shadow-sm">
+          {flowsQuery.isPending ? (
+            <p className="text-center py-12 text-text-muted">Loading flows...</p>
+          ) : flowsQuery.isError ? (
+            <p className="text-center py-12 text-red-600">{flowsQuery.error.message}</p>
+          ) : flows.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-text-muted">
+                {search.trim() ? 'No flows match your search' : 'No flows yet'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Last edited</TableHead>
+                  <TableHead className="text-right">Nodes</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flows.map(({ document, errorCount }) => (
+                  <TableRow key={document.id}>
+                    <TableCell>
+                      <Link to={`/flows/${document.id}`} className="font-medium text-text-primary hover:underline">
+                        {document.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-text-secondary" title={new Date(document.metadata.updatedAt).toLocaleString()}>
+                      {formatDistanceToNow(new Date(document.metadata.updatedAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right text-text-secondary">{withoutAnnotations(document.nodes).length}</TableCell>
+                    <TableCell>
+                      {errorCount === 0 ? (
+                        <span className="flex items-center gap-1 text-sm text-green-700">
+                          <CheckCircle2 className="w-4 h-4" />
+                          Valid
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-sm text-red-600">
+                          <AlertCircle className="w-4 h-4" />
+                          {errorCount} error{errorCount === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={`Actions for ${document.name}`}>
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onSelect={() => setNameDialog({ mode: 'rename', document })}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => duplicateFlow(document)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onSelect={() => setPendingDelete(document)} className="text-red-600">
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+
+      <FlowNameDialog
+        open={nameDialog !== null}
+        title={nameDialog?.mode === 'rename' ? 'Rename flow' : 'New flow'}
+        description={
+          nameDialog?.mode === 'rename'
+            ? 'Choose a new name for this flow.'
+            : 'Name the flow. It starts with just a Start node.'
+        }
+        confirmLabel={nameDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+        initialName={nameDialog?.mode === 'rename' ? nameDialog.document.name : 'Untitled flow'}
+        onConfirm={(name) =>
+          nameDialog?.mode === 'rename' ? renameFlow(nameDialog.document, name) : createFlow(name)
+        }
+        onCancel={() => setNameDialog(null)}
+      />
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The flow is removed permanently. Export it first if you may need it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteFlow} className="bg-red-600 hover:bg-red-700 text-white">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Node } from '@xyflow/react';
+import {
+  AlertCircle,
+  Braces,
+  Cable,
+  CheckCircle2,
+  Search,
+  Download,
+  FileText,
+  LayoutGrid,
+  ListTree,
+  MessageCircle,
+  Network,
+  Play,
+  Plus,
+  StickyNote,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import type { FlowDocument } from '@/lib/flow/document';
+import { getNodeName } from '@/lib/flow/navigation';
+import { getNodeLabel, getNodeTexts } from '@/lib/flow/search';
+import { nodeCatalog, nodeColorStyles } from '../panels/node-catalog';
+
+type PanelId = 'nodes' | 'problems' | 'variables' | 'outline';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Nodes that can be jumped to */
+  nodes: Node[];
+  /** Other flows of the workspace, most recently edited first */
+  recentFlows: FlowDocument[];
+  notesHidden: boolean;
+  /** Adds a node where the cursor was when the palette opened */
+  onAddNode: (type: string) => void;
+  onSelectNode: (nodeId: string) => void;
+  /** Connects the inspected node to another one; omitted while no node is inspected */
+  onConnectNode?: () => void;
+  onValidate: () => void;
+  onFind: () => void;
+  onAutoLayout: () => void;
+  onExport: () => void;
+  onExportWhatsApp: () => void;
+  onShowPanel: (panel: PanelId) => void;
+  onToggleNotes: () => void;
+  onOpenPreview: () => void;
+  onOpenFlow: (flowId: string) => void;
+  onOpenDashboard: () => void;
+}
+
+// Side panel tabs the palette can switch to
+const panels: { id: PanelId; label: string; icon: React.ElementType }[] = [
+  { id: 'nodes', label: 'Show Nodes panel', icon: Plus },
+  { id: 'problems', label: 'Show Problems', icon: AlertCircle },
+  { id: 'variables', label: 'Show Variables', icon: Braces },
+  { id: 'outline', label: 'Show Outline', icon: ListTree },
+];
+
+/**
+ * CommandPalette Component
+ *
+ * Ctrl+K palette for running any builder action from the keyboard.
+ * Features:
+ * - Fuzzy search over every command; arrows, Enter and Escape to operate it
+ * - Add any node type at the cursor
+ * - Jump to a node by its label or text content (listed once you type)
+ * - Connect the inspected node to another node
+ * - Validate, find and replace, tidy, export (also to WhatsApp), switch side panels, toggle notes and open the preview
+ * - Open one of the recently edited flows
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  open,
+  onOpenChange,
+  nodes,
+  recentFlows,
+  notesHidden,
+  onAddNode,
+  onSelectNode,
+  onConnectNode,
+  onValidate,
+  onFind,
+  onAutoLayout,
+  onExport,
+  onExportWhatsApp,
+  onShowPanel,
+  onToggleNotes,
+  onOpenPreview,
+  onOpenFlow,
+  onOpenDashboard,
+}) => {
+  const [search, setSearch] = useState('');
+
+  // Start from an empty search every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setSearch('');
+    }
+  }, [open]);
+
+  // Close the palette, then run the command
+  const run = (command: () => void) => {
+    onOpenChange(false);
+    command();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <DialogDescription className="sr-only">
+        Search for a command or a node, then press Enter to run it.
+      </DialogDescription>
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder="Type a command or search nodes..."
+      />
+      <CommandList className="max-h-[400px]">
+        <CommandEmpty>No matching commands or nodes.</CommandEmpty>
+
+        {/* Nodes are only listed while searching, so the empty palette shows the commands */}
+        {search && nodes.length > 0 && (
+          <CommandGroup heading="Go to node">
+            {nodes.map((node) => {
+              const texts = getNodeTexts(node);
+              return (
+                <CommandItem
+                  key={node.id}
+                  value={`node ${node.id}`}
+                  keywords={[getNodeLabel(node), ...texts]}
+                  onSelect={() => run(() => onSelectNode(node.id))}
+                >
+                  <FileText className="mr-2 text-text-muted" />
+                  <div className="min-w-0">
+                    <div className="truncate">{getNodeName(node)}</div>
+                    {texts.length > 0 && getNodeLabel(node) && (
+                      <div className="truncate text-xs text-text-muted">{texts[0]}</div>
+                    )}
+                  </div>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        <CommandGroup heading="Add node">
+          {nodeCatalog.map((nodeType) => {
+            const IconComponent = nodeType.icon;
+            return (
+              <CommandItem
+                key={nodeType.id}
+                value={`add ${nodeType.id}`}
+                keywords={['Add', nodeType.label, nodeType.category]}
+                onSelect={() => run(() => onAddNode(nodeType.id))}
+              >
+                <IconComponent className={`mr-2 ${nodeColorStyles[nodeType.color].icon}`} />
+                Add {nodeType.label}
+                <span className="ml-2 truncate text-xs text-text-muted">{nodeType.description}</span>
+              </CommandItem>
+            );
+          })}
+        </CommandGroup>
+
+        <CommandSeparator />
+        <CommandGroup heading="Flow">
+          {onConnectNode && (
+            <CommandItem value="connect" keywords={['Connect selected node to', 'edge', 'link']} onSelect={() => run(onConnectNode)}>
+              <Cable className="mr-2" />
+              Connect selected node to…
+              <CommandShortcut>C</CommandShortcut>
+            </CommandItem>
+          )}
+          <CommandItem value="validate" keywords={['Validate flow', 'check', 'problems']} onSelect={() => run(onValidate)}>
+            <CheckCircle2 className="mr-2" />
+            Validate flow
+          </CommandItem>
+          <CommandItem value="find" keywords={['Find and replace', 'search', 'rename']} onSelect={() => run(onFind)}>
+            <Search className="mr-2" />
+            Find and replace
+            <CommandShortcut>Ctrl+F</CommandShortcut>
+          </CommandItem>
+          <CommandItem value="tidy" keywords={['Tidy layout', 'auto layout', 'arrange']} onSelect={() => run(onAutoLayout)}>
+            <Network className="mr-2" />
+            Tidy layout
+            <CommandShortcut>Ctrl+Shift+L</CommandShortcut>
+          </CommandItem>
+          <CommandItem value="export" keywords={['Export flow', 'download', 'json']} onSelect={() => run(onExport)}>
+            <Download className="mr-2" />
+            Export flow
+          </CommandItem>
+          <CommandItem value="export-whatsapp" keywords={['Export to WhatsApp', 'whatsapp', 'cloud api']} onSelect={() => run(onExportWhatsApp)}>
+            <MessageCircle className="mr-2" />
+            Export to WhatsApp
+          </CommandItem>
+          <CommandItem value="preview" keywords={['Open preview', 'simulate', 'test']} onSelect={() => run(onOpenPreview)}>
+            <Play className="mr-2" />
+            Open preview
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandSeparator />
+        <CommandGroup heading="Panels">
+          {panels.map((panel) => {
+            const IconComponent = panel.icon;
+            return (
+              <CommandItem
+                key={panel.id}
+                value={`panel ${panel.id}`}
+                keywords={[panel.label, 'panel']}
+                onSelect={() => run(() => onShowPanel(panel.id))}
+              >
+                <IconComponent className="mr-2" />
+                {panel.label}
+              </CommandItem>
+            );
+          })}
+          <CommandItem value="notes" keywords={[notesHidden ? 'Show notes' : 'Hide notes', 'toggle']} onSelect={() => run(onToggleNotes)}>
+            <StickyNote className="mr-2" />
+            {notesHidden ? 'Show notes' : 'Hide notes'}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandSeparator />
+        <CommandGroup heading="Flows">
+          {recentFlows.map((flow) => (
+            <CommandItem
+              key={flow.id}
+              value={`flow ${flow.id}`}
+              keywords={['Open', flow.name]}
+              onSelect={() => run(() => onOpenFlow(flow.id))}
+            >
+              <FileText className="mr-2" />
+              Open {flow.name}
+            </CommandItem>
+          ))}
+          <CommandItem value="dashboard" keywords={['All flows', 'dashboard']} onSelect={() => run(onOpenDashboard)}>
+            <LayoutGrid className="mr-2" />
+            All flows
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
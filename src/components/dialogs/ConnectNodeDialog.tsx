@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Connection, Edge, Node } from '@xyflow/react';
+import { Label } from '@/components/ui/label';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { isAnnotationNode } from '@/lib/flow/annotations';
+import { getSourceHandles } from '@/lib/flow/handles';
+import { getNodeLabel } from '@/lib/flow/search';
+import { isStartNode } from '@/lib/flow/start';
+
+interface ConnectNodeDialogProps {
+  /** Node to connect from; the dialog is open while set */
+  source: Node | null;
+  nodes: Node[];
+  edges: Edge[];
+  onConnect: (connection: Connection) => void;
+  onCancel: () => void;
+}
+
+// Select values are strings; the unnamed default handle gets a stand-in
+const DEFAULT_HANDLE_VALUE = '__default__';
+
+/**
+ * ConnectNodeDialog Component
+ *
+ * Keyboard alternative to dragging a connection: picks one of the node's
+ * free outputs and the node it should lead to.
+ * Features:
+ * - Outputs that are already connected are left out (one edge per output)
+ * - Target nodes are searchable by label or ID; Enter connects
+ */
+export const ConnectNodeDialog: React.FC<ConnectNodeDialogProps> = ({ source, nodes, edges, onConnect, onCancel }) => {
+  const freeHandles = source
+    ? getSourceHandles(source).filter(
+      (handle) => !edges.some((edge) => edge.source === source.id && (edge.sourceHandle ?? null) === handle.id)
+    )
+    : [];
+  const [handleValue, setHandleValue] = useState(DEFAULT_HANDLE_VALUE);
+  const targets = nodes.filter((node) => node.id !== source?.id && !isStartNode(node) && !isAnnotationNode(node));
+  const sourceLabel = source ? getNodeLabel(source) || source.id : '';
+
+  // Start from the first free output each time the dialog opens
+  const sourceId = source?.id;
+  const firstFreeHandle = freeHandles[0]?.id;
+  useEffect(() => {
+    if (sourceId) {
+      setHandleValue(firstFreeHandle ?? DEFAULT_HANDLE_VALUE);
+    }
+  }, [sourceId, firstFreeHandle]);
+
+  return (
+    <Dialog open={Boolean(source)} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="p-0 gap-0 overflow-hidden">
+        <DialogHeader className="p-4 pb-2">
+          <DialogTitle>Connect “{sourceLabel}” to…</DialogTitle>
+          <DialogDescription>
+            Choose the node the conversation continues at.
+          </DialogDescription>
+        </DialogHeader>
+
+        {freeHandles.length === 0 ? (
+          <p className="px-4 pb-4 text-sm text-text-secondary">
+            Every output of this node is already connected. Remove a connection first.
+          </p>
+        ) : (
+          <>
+            {freeHandles.length > 1 && (
+              <div className="px-4 pb-3 space-y-2">
+                <Label htmlFor="connect-output" className="text-sm font-medium text-text-primary">
+                  Output
+                </Label>
+                <Select value={handleValue} onValueChange={setHandleValue}>
+                  <SelectTrigger id="connect-output" className="bg-node-bg border-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {freeHandles.map((handle) => (
+                      <SelectItem key={handle.id ?? DEFAULT_HANDLE_VALUE} value={handle.id ?? DEFAULT_HANDLE_VALUE}>
+                        {handle.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Command className="border-t">
+              <CommandInput placeholder="Search by label or ID..." autoFocus />
+              <CommandList>
+                <CommandEmpty>No matching node.</CommandEmpty>
+                <CommandGroup heading="Connect to">
+                  {targets.map((node) => (
+                    <CommandItem
+                      key={node.id}
+                      value={`${getNodeLabel(node)} ${node.id}`}
+                      onSelect={() =>
+                        source &&
+                        onConnect({
+                          source: source.id,
+                          sourceHandle: handleValue === DEFAULT_HANDLE_VALUE ? null : handleValue,
+                          target: node.id,
+                          targetHandle: null,
+                        })
+                      }
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate">{getNodeLabel(node) || node.id}</div>
+                        <div className="text-xs text-text-muted font-mono truncate">{node.id}</div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface FlowNameDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  initialName: string;
+  onConfirm: (name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * FlowNameDialog Component
+ *
+ * Asks for a flow name; used when creating and renaming flows.
+ * Features:
+ * - Name is prefilled and selected when the dialog opens
+ * - Enter confirms; blank names are rejected
+ */
+export const FlowNameDialog: React.FC<FlowNameDialogProps> = ({
+  open,
+  title,
+  description,
+  confirmLabel,
+  initialName,
+  onConfirm,
+  onCancel,
+}) => {
+  const [name, setName] = useState(initialName);
+
+  // Reset the field each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(initialName);
+    }
+  }, [open, initialName]);
+
+  const trimmedName = name.trim();
+
+  // Confirm with the trimmed name
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (trimmedName) {
+      onConfirm(trimmedName);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="flow-name">Name</Label>
+            <Input
+              id="flow-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onFocus={(e) => e.target.select()}
+              autoFocus
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!trimmedName}
+              className="bg-primary hover:bg-primary-hover text-primary-foreground"
+            >
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { FileJson } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FlowDocument } from '@/lib/flow/document';
+import { withoutStartNode } from '@/lib/flow/start';
+
+interface ImportFlowDialogProps {
+  importedDocument: FlowDocument | null;
+  currentNodeCount: number;
+  currentEdgeCount: number;
+  onReplace: (document: FlowDocument) => void;
+  onMerge: (document: FlowDocument) => void;
+  onCancel: () => void;
+}
+
+/**
+ * ImportFlowDialog Component
+ *
+ * Confirms an import before it touches the canvas.
+ * Shows what replacing or merging would do to the current flow:
+ * - Replace: current nodes/connections are removed, imported ones added
+ * - Merge: imported nodes are added next to the current flow with new IDs
+ *   (without the imported Start node; the current one stays the entry point)
+ */
+export const ImportFlowDialog: React.FC<ImportFlowDialogProps> = ({
+  importedDocument,
+  currentNodeCount,
+  currentEdgeCount,
+  onReplace,
+  onMerge,
+  onCancel,
+}) => {
+  const importedNodeCount = importedDocument?.nodes.length ?? 0;
+  const importedEdgeCount = importedDocument?.edges.length ?? 0;
+  const mergedFlow = withoutStartNode(importedDocument?.nodes ?? [], importedDocument?.edges ?? []);
+  const mergedNodeCount = mergedFlow.nodes.length;
+  const mergedEdgeCount = mergedFlow.edges.length;
+
+  return (
+    <Dialog open={importedDocument !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileJson className="w-5 h-5 text-message-node" />
+            Import "{importedDocument?.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Choose whether the imported flow replaces the current one or is merged into it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Diff-style summary */}
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="rounded-lg border border-panel-border p-3 space-y-1">
+            <div className="font-medium text-text-primary mb-2">Replace</div>
+            <div className="font-mono text-xs text-red-600">- {currentNodeCount} nodes</div>
+            <div className="font-mono text-xs text-red-600">- {currentEdgeCount} connections</div>
+            <div className="font-mono text-xs text-green-700">+ {importedNodeCount} nodes</div>
+            <div className="font-mono text-xs text-green-700">+ {importedEdgeCount} connections</div>
+            <div className="text-xs text-text-secondary pt-1">
+              Result: {importedNodeCount} nodes, {importedEdgeCount} connections
+            </div>
+          </div>
+          <div className="rounded-lg border border-panel-border p-3 space-y-1">
+            <div className="font-medium text-text-primary mb-2">Merge</div>
+            <div className="font-mono text-xs text-text-muted">  {currentNodeCount} nodes kept</div>
+            <div className="font-mono text-xs text-text-muted">  {currentEdgeCount} connections kept</div>
+            <div className="font-mono text-xs text-green-700">+ {mergedNodeCount} nodes</div>
+            <div className="font-mono text-xs text-green-700">+ {mergedEdgeCount} connections</div>
+            <div className="text-xs text-text-secondary pt-1">
+              Result: {currentNodeCount + mergedNodeCount} nodes, {currentEdgeCount + mergedEdgeCount} connections
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => importedDocument && onMerge(importedDocument)}>
+            Merge
+          </Button>
+          <Button
+            onClick={() => importedDocument && onReplace(importedDocument)}
+            className="bg-primary hover:bg-primary-hover text-primary-foreground"
+          >
+            Replace
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface UnsavedChangesDialogProps {
+  open: boolean;
+  onStay: () => void;
+  onLeave: () => void;
+}
+
+/**
+ * UnsavedChangesDialog Component
+ *
+ * Shown when navigating away from a flow with unsaved edits.
+ * Staying keeps the editor as it is; leaving discards the edits.
+ */
+export const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({ open, onStay, onLeave }) => (
+  <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onStay()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+        <AlertDialogDescription>
+          This flow has changes that haven't been saved. Leaving now will discard them.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={onStay}>Keep editing</AlertDialogCancel>
+        <AlertDialogAction onClick={onLeave} className="bg-red-600 hover:bg-red-700 text-white">
+          Discard changes
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,271 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, Download, List, MessageCircle, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { FlowDiagnostic } from '@/lib/flow/analysis';
+import type { FlowDocument } from '@/lib/flow/document';
+import { downloadWhatsAppBundle } from '@/lib/flow/file';
+import { MediaType, getMediaTypeLabel } from '@/lib/flow/media';
+import {
+  WhatsAppMessage,
+  WhatsAppStepKind,
+  compileWhatsAppBundle,
+} from '@/lib/flow/whatsapp';
+
+interface WhatsAppExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Live document built from the canvas */
+  flowDocument: FlowDocument;
+  /** WhatsApp channel limits the flow exceeds, as listed in the Problems panel */
+  channelDiagnostics: FlowDiagnostic[];
+  /** Problems found by the flow analyzer; errors block the export as they block saving */
+  diagnostics: FlowDiagnostic[];
+  onSelectDiagnostic: (diagnostic: FlowDiagnostic) => void;
+}
+
+const stepKindLabels: Record<WhatsAppStepKind, string> = {
+  start: 'Start',
+  message: 'Message',
+  buttons: 'Buttons',
+  question: 'Question',
+  condition: 'Condition',
+  subflow: 'Sub-flow',
+};
+
+// The file of a media message; `null` for text and interactive messages
+const getMediaContent = (message: WhatsAppMessage): { link: string; caption?: string } | null => {
+  switch (message.type) {
+    case 'image':
+      return message.image;
+    case 'video':
+      return message.video;
+    case 'audio':
+      return message.audio;
+    case 'document':
+      return message.document;
+    default:
+      return null;
+  }
+};
+
+// A WhatsApp message drawn roughly as the user will see it
+const MessagePreview: React.FC<{ message: WhatsAppMessage }> = ({ message }) => {
+  const media = getMediaContent(message);
+  return (
+    <div className="max-w-sm space-y-1">
+      <div className="px-3 py-2 rounded-lg rounded-tl-sm bg-node-bg border border-node-border text-sm text-text-primary whitespace-pre-wrap">
+        {message.type === 'text' && message.text.body}
+        {message.type === 'interactive' && message.interactive.body.text}
+        {media && (
+          <>
+            <div className="flex items-center gap-1 text-xs text-text-secondary">
+              <Paperclip className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">
+                {getMediaTypeLabel(message.type as MediaType)}: {media.link || '(no URL)'}
+              </span>
+            </div>
+            {media.caption && <div className="mt-1">{media.caption}</div>}
+          </>
+        )}
+      </div>
+      {message.type === 'interactive' && message.interactive.type === 'button' && (
+        <div className="flex flex-wrap gap-1">
+          {message.interactive.action.buttons.map((button) => (
+            <span
+              key={button.reply.id}
+              className="rounded-md border border-node-border bg-node-bg px-2 py-1 text-xs text-message-node-text"
+            >
+              {button.reply.title}
+            </span>
+          ))}
+        </div>
+      )}
+      {message.type === 'interactive' && message.interactive.type === 'list' && (
+        <div className="rounded-md border border-node-border bg-node-bg px-2 py-1 text-xs">
+          <div className="flex items-center gap-1 font-medium text-message-node-text">
+            <List className="w-3 h-3" />
+            {message.interactive.action.button}
+          </div>
+          <ul className="mt-1 space-y-0.5 text-text-secondary">
+            {message.interactive.action.sections.flatMap((section) =>
+              section.rows.map((row) => <li key={row.id}>{row.title}</li>)
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * WhatsAppExportDialog Component
+ *
+ * Compiles the flow into WhatsApp Cloud API payloads and previews them
+ * before downloading the bundle.
+ * Features:
+ * - Lists analyzer problems and WhatsApp limit violations; errors block the download
+ * - Messages per step as WhatsApp will show them (text, reply buttons, lists, media)
+ * - Transition table and the raw JSON bundle
+ */
+export const WhatsAppExportDialog: React.FC<WhatsAppExportDialogProps> = ({
+  open,
+  onOpenChange,
+  flowDocument,
+  channelDiagnostics,
+  diagnostics,
+  onSelectDiagnostic,
+}) => {
+  // Only compiled while the dialog is open; the live document changes with every edit
+  const bundle = useMemo(() => (open ? compileWhatsAppBundle(flowDocument) : null), [open, flowDocument]);
+  const problems = useMemo(() => {
+    if (!open) {
+      return [];
+    }
+    const all = [...channelDiagnostics, ...diagnostics];
+    return [
+      ...all.filter((diagnostic) => diagnostic.severity === 'error'),
+      ...all.filter((diagnostic) => diagnostic.severity === 'warning'),
+    ];
+  }, [open, channelDiagnostics, diagnostics]);
+  const errorCount = problems.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const stepNames = new Map(bundle?.steps.map((step) => [step.nodeId, step.label || step.nodeId]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircle className="w-5 h-5 text-message-node" />
+            Export to WhatsApp
+          </DialogTitle>
+          <DialogDescription>
+            WhatsApp Cloud API messages for every step of "{flowDocument.name}", and which step follows on which reply.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Problems */}
+        {problems.length > 0 && (
+          <div className="rounded-lg border border-panel-border">
+            <div className="px-3 py-2 text-sm font-medium text-text-primary border-b border-panel-border">
+              {errorCount > 0
+                ? `Fix ${errorCount} error${errorCount === 1 ? '' : 's'} before exporting`
+                : 'Warnings'}
+            </div>
+            <ul className="max-h-36 overflow-y-auto p-1">
+              {problems.map((diagnostic, index) => {
+                const isError = diagnostic.severity === 'error';
+                const IconComponent = isError ? AlertCircle : AlertTriangle;
+                return (
+                  <li key={`${diagnostic.code}-${diagnostic.nodeId}-${diagnostic.handleId}-${index}`}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onOpenChange(false);
+                        onSelectDiagnostic(diagnostic);
+                      }}
+                      className="w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-secondary"
+                    >
+                      <IconComponent className={`w-4 h-4 mt-0.5 flex-shrink-0 ${isError ? 'text-red-600' : 'text-amber-600'}`} />
+                      <span className="text-text-primary">{diagnostic.message}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {bundle && (
+          <Tabs defaultValue="messages" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="self-start">
+              <TabsTrigger value="messages">Messages</TabsTrigger>
+              <TabsTrigger value="transitions">Transitions</TabsTrigger>
+              <TabsTrigger value="json">JSON</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="messages" className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+              {bundle.steps.map((step) => (
+                <div key={step.nodeId} className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium text-text-primary">{step.label || step.nodeId}</span>
+                    <span className="rounded-full bg-secondary px-2 text-xs text-text-secondary">
+                      {stepKindLabels[step.kind]}
+                    </span>
+                    {step.input && (
+                      <span className="text-xs text-text-muted">
+                        answer → <span className="font-mono">{step.input.variable || '(no variable)'}</span>
+                      </span>
+                    )}
+                  </div>
+                  {step.messages.length === 0 ? (
+                    <p className="text-xs text-text-muted italic">No messages; continues right away</p>
+                  ) : (
+                    step.messages.map((message, index) => <MessagePreview key={index} message={message} />)
+                  )}
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="transitions" className="flex-1 min-h-0 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>To</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bundle.transitions.map((transition, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{stepNames.get(transition.from) ?? transition.from}</TableCell>
+                      <TableCell>
+                        <span className="font-mono text-xs text-text-muted mr-2">{transition.on.type}</span>
+                        {transition.label}
+                      </TableCell>
+                      <TableCell>{stepNames.get(transition.to) ?? transition.to}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="json" className="flex-1 min-h-0 overflow-auto">
+              <pre className="rounded-lg bg-secondary p-3 text-xs font-mono text-text-primary">
+                {JSON.stringify(bundle, null, 2)}
+              </pre>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter className="items-center">
+          <span className="mr-auto text-xs text-text-muted">
+            {bundle?.steps.length ?? 0} steps, {bundle?.transitions.length ?? 0} transitions
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={() => bundle && downloadWhatsAppBundle(bundle)}
+            disabled={!bundle || errorCount > 0}
+            title={errorCount > 0 ? 'Fix the errors first' : undefined}
+            className="bg-primary hover:bg-primary-hover text-primary-foreground"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
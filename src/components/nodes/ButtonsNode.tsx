@@ -0,0 +1,68 @@
+import React, { memo, useEffect } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from '@xyflow/react';
+import { MousePointerClick } from 'lucide-react';
+import type { QuickReplyButton } from '@/lib/flow/quick-replies';
+import { TemplateText } from './TemplateText';
+import { NodeCard, handleClassName } from './NodeCard';
+
+// Define the data structure for ButtonsNode
+export interface ButtonsNodeData {
+  label: string;
+  text: string;
+  buttons: QuickReplyButton[];
+}
+
+/**
+ * ButtonsNode Component
+ *
+ * A text message followed by quick-reply buttons.
+ * Features:
+ * - One source handle per button, so each choice can lead somewhere else
+ * - Handle ids are the button ids, so edges stay attached when buttons are reordered
+ */
+export const ButtonsNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as ButtonsNodeData;
+  const buttons = nodeData.buttons || [];
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handleKey = buttons.map((button) => button.id).join('|');
+
+  // Handles move when buttons are added, removed or reordered
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  return (
+    <NodeCard id={id} icon={MousePointerClick} label={nodeData.label || 'Quick Replies'} accent="message" selected={selected}>
+      {/* Node Content */}
+      <div className="p-3 pb-2 text-sm text-text-primary leading-relaxed">
+        {nodeData.text ? (
+          <TemplateText text={nodeData.text} maxLength={100} />
+        ) : (
+          <span className="text-text-muted italic">No message text</span>
+        )}
+      </div>
+
+      {/* Buttons - one source handle each */}
+      <div className="pb-2 space-y-1">
+        {buttons.map((button) => (
+          <div key={button.id} className="relative px-3">
+            <div className="text-xs text-center font-medium text-message-node-text bg-message-node-bg border border-message-node-border rounded-full px-2 py-1 truncate">
+              {button.title || <span className="italic text-text-muted">Untitled button</span>}
+            </div>
+            <Handle
+              id={button.id}
+              type="source"
+              position={Position.Right}
+              aria-label={`Output: ${button.title || 'Untitled button'}`}
+              className={handleClassName}
+              style={{ right: -6 }}
+            />
+          </div>
+        ))}
+        {buttons.length === 0 && (
+          <div className="px-3 text-xs text-text-muted italic">No buttons yet</div>
+        )}
+      </div>
+    </NodeCard>
+  );
+});
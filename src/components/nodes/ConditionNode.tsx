@@ -0,0 +1,61 @@
+import React, { memo, useEffect } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from '@xyflow/react';
+import { GitBranch } from 'lucide-react';
+import { ELSE_HANDLE_ID, getSourceHandles } from '@/lib/flow/handles';
+import type { ConditionRule } from '@/lib/flow/conditions';
+import { NodeCard, handleClassName } from './NodeCard';
+
+// Define the data structure for ConditionNode
+export interface ConditionNodeData {
+  label: string;
+  rules: ConditionRule[];
+}
+
+/**
+ * ConditionNode Component
+ *
+ * Branches the flow based on variable values.
+ * Features:
+ * - One source handle per rule, evaluated top to bottom
+ * - An "Else" handle taken when no rule matches
+ * - Handle ids are the rule ids, so edges follow rules when they are reordered
+ */
+export const ConditionNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as ConditionNodeData;
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handles = getSourceHandles({ type: 'conditionNode', data: nodeData });
+  const handleKey = handles.map((handle) => handle.id).join('|');
+
+  // Handles move when rules are added, removed or reordered
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  return (
+    <NodeCard id={id} icon={GitBranch} label={nodeData.label || 'Condition'} accent="condition" selected={selected}>
+      {/* Branches - one source handle each */}
+      <div className="py-1">
+        {handles.map((handle, index) => (
+          <div key={handle.id} className="relative px-3 py-1.5 text-xs text-text-primary">
+            {handle.id === ELSE_HANDLE_ID ? (
+              <span className="italic text-text-secondary">{handle.label}</span>
+            ) : (
+              <>
+                <span className="text-text-muted mr-1">{index + 1}.</span>
+                <span>{handle.label}</span>
+              </>
+            )}
+            <Handle
+              id={handle.id}
+              type="source"
+              position={Position.Right}
+              aria-label={`Output: ${handle.label}`}
+              className={handleClassName}
+              style={{ right: -6 }}
+            />
+          </div>
+        ))}
+      </div>
+    </NodeCard>
+  );
+});
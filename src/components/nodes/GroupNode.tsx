@@ -0,0 +1,202 @@
+import React, { memo, useState, useRef, useEffect, useCallback } from 'react';
+import { Handle, NodeProps, NodeResizer, Position, useReactFlow, useStore } from '@xyflow/react';
+import { AlertCircle, ChevronDown, ChevronRight, Frame } from 'lucide-react';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+import { COLLAPSED_GROUP_HANDLE_ID, DEFAULT_GROUP_SIZE, GroupColor, MIN_GROUP_SIZE } from '@/lib/flow/groups';
+import { handleClassName } from './NodeCard';
+import { groupColorStyles } from './group-styles';
+
+// Define the data structure for GroupNode
+export interface GroupNodeData {
+  label: string;
+  color: GroupColor;
+  width: number;
+  height: number;
+  collapsed: boolean;
+}
+
+/**
+ * GroupNode Component
+ *
+ * A frame around a section of the flow (e.g. "Onboarding", "Billing").
+ * Features:
+ * - Nodes inside the frame move with it; drag nodes in or out to regroup
+ * - Double-click the title to rename; resizable when selected
+ * - Collapses to a summary box; edges to its contents then end at the box
+ */
+export const GroupNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as GroupNodeData;
+  const { setNodes } = useReactFlow();
+  const { takeSnapshot, toggleGroup, diagnosticsByNode, searchMatchIds } = useFlowEditor();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editLabel, setEditLabel] = useState(nodeData.label || '');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const styles = groupColorStyles[nodeData.color] ?? groupColorStyles.gray;
+
+  // Ids of the nodes inside the frame, joined so the selector result compares by value
+  const childIds = useStore(
+    useCallback(
+      (state) => state.nodes.filter((node) => node.parentId === id).map((node) => node.id).join(' '),
+      [id]
+    )
+  );
+  const children = childIds ? childIds.split(' ') : [];
+  const errorCount = children.reduce(
+    (count, childId) =>
+      count + (diagnosticsByNode.get(childId) ?? []).filter((diagnostic) => diagnostic.severity === 'error').length,
+    0
+  );
+
+  // Store the size in the node data so it is saved with the flow
+  const handleResize = (_: unknown, { width, height }: { width: number; height: number }) => {
+    setNodes((nds) =>
+      nds.map((node) => (node.id === id ? { ...node, data: { ...node.data, width, height } } : node))
+    );
+  };
+
+  // Handle double click on the title to rename the frame
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditLabel(nodeData.label || '');
+  };
+
+  // Handle saving the new name (recorded as one undo step)
+  const handleSave = () => {
+    setIsEditing(false);
+    if (editLabel === nodeData.label) {
+      return;
+    }
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((node) => (node.id === id ? { ...node, data: { ...node.data, label: editLabel } } : node))
+    );
+  };
+
+  // Handle key press in the title field
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      setEditLabel(nodeData.label || '');
+      setIsEditing(false);
+    }
+  };
+
+  // Auto focus and select the title when editing starts
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const toggleButton = (
+    <button
+      type="button"
+      className="nodrag p-0.5 rounded hover:bg-black/5"
+      title={nodeData.collapsed ? 'Expand frame' : 'Collapse frame'}
+      aria-expanded={!nodeData.collapsed}
+      onClick={(event) => {
+        event.stopPropagation();
+        toggleGroup(id);
+      }}
+    >
+      {nodeData.collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+    </button>
+  );
+
+  const title = isEditing ? (
+    <input
+      ref={inputRef}
+      value={editLabel}
+      onChange={(e) => setEditLabel(e.target.value)}
+      onKeyDown={handleKeyPress}
+      onBlur={handleSave}
+      className="nodrag min-w-0 flex-1 text-sm font-semibold bg-white/70 border border-input-focus rounded px-1 focus:outline-none"
+    />
+  ) : (
+    <span className="min-w-0 flex-1 truncate text-sm font-semibold cursor-text" onDoubleClick={handleDoubleClick}>
+      {nodeData.label || 'Untitled section'}
+    </span>
+  );
+
+  // Collapsed: a summary box that stands in for the contents, with edges rerouted to its border
+  if (nodeData.collapsed) {
+    return (
+      <div
+        className={`
+          relative w-[220px] border-2 rounded-lg shadow-sm bg-node-bg ${styles.frame} ${styles.title}
+          ${selected ? 'border-selected shadow-md' : ''}
+          ${searchMatchIds.has(id) ? 'ring-4 ring-amber-300' : ''}
+        `}
+      >
+        <Handle
+          type="target"
+          position={Position.Left}
+          isConnectable={false}
+          aria-label="Input"
+          className={handleClassName}
+          style={{ left: -6 }}
+        />
+        <div className="flex items-center gap-2 p-3">
+          {toggleButton}
+          <Frame className="w-4 h-4 flex-shrink-0" />
+          {title}
+        </div>
+        <div className="flex items-center gap-2 px-3 pb-3 text-xs">
+          <span>{children.length} node{children.length === 1 ? '' : 's'}</span>
+          {errorCount > 0 && (
+            <span className="flex items-center gap-1 rounded-full px-1.5 font-medium bg-red-100 text-red-700">
+              <AlertCircle className="w-3 h-3" />
+              {errorCount}
+            </span>
+          )}
+        </div>
+        <Handle
+          type="source"
+          id={COLLAPSED_GROUP_HANDLE_ID}
+          position={Position.Right}
+          isConnectable={false}
+          aria-label="Output"
+          className={handleClassName}
+          style={{ right: -6 }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={MIN_GROUP_SIZE.width}
+        minHeight={MIN_GROUP_SIZE.height}
+        color="hsl(var(--selected))"
+        onResizeStart={() => takeSnapshot()}
+        onResize={handleResize}
+      />
+      <div
+        className={`
+          border-2 border-dashed rounded-xl ${styles.frame}
+          ${selected ? 'border-selected' : ''}
+          ${searchMatchIds.has(id) ? 'ring-4 ring-amber-300' : ''}
+        `}
+        style={{
+          width: nodeData.width || DEFAULT_GROUP_SIZE.width,
+          height: nodeData.height || DEFAULT_GROUP_SIZE.height,
+        }}
+      >
+        <div className={`flex items-center gap-2 px-3 h-10 ${styles.title}`}>
+          {toggleButton}
+          <Frame className="w-4 h-4 flex-shrink-0" />
+          {title}
+          <span className="text-xs opacity-70">
+            {children.length} node{children.length === 1 ? '' : 's'}
+          </span>
+        </div>
+      </div>
+    </>
+  );
+});
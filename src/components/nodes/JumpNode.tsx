@@ -0,0 +1,52 @@
+import React, { memo } from 'react';
+import { NodeProps, useInternalNode } from '@xyflow/react';
+import { ArrowRight, CornerDownRight } from 'lucide-react';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+import { NodeCard } from './NodeCard';
+
+// Define the data structure for JumpNode
+export interface JumpNodeData {
+  label: string;
+  targetId: string;
+}
+
+/**
+ * JumpNode Component
+ *
+ * Continues the conversation at another node without an edge across the canvas.
+ * Features:
+ * - Target handle only; execution goes on at the chosen target
+ * - Shows the target's label and goes there in one click
+ * - The target shows a matching marker that leads back here
+ */
+export const JumpNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as JumpNodeData;
+  const { focusNode } = useFlowEditor();
+  const target = useInternalNode(nodeData.targetId || '');
+  const targetLabel = (target?.data.label as string) || target?.id;
+
+  return (
+    <NodeCard id={id} icon={CornerDownRight} label={nodeData.label || 'Jump'} accent="jump" selected={selected}>
+      <div className="px-3 py-2">
+        {target ? (
+          <button
+            type="button"
+            className="nodrag w-full flex items-center gap-1 text-xs font-medium text-jump-node-text bg-jump-node-bg border border-jump-node-border rounded px-2 py-1 hover:border-jump-node"
+            title="Go to the target"
+            onClick={(event) => {
+              event.stopPropagation();
+              focusNode(target.id);
+            }}
+          >
+            <ArrowRight className="w-3 h-3 shrink-0" />
+            <span className="truncate">{targetLabel}</span>
+          </button>
+        ) : (
+          <div className="text-xs italic text-text-muted">
+            {nodeData.targetId ? 'Target no longer exists' : 'No target selected'}
+          </div>
+        )}
+      </div>
+    </NodeCard>
+  );
+});
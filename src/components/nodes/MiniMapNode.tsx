@@ -0,0 +1,51 @@
+import React, { memo } from 'react';
+import { MiniMapNodeProps, useInternalNode } from '@xyflow/react';
+import { isGroupNode } from '@/lib/flow/groups';
+
+/**
+ * MiniMapNode Component
+ *
+ * Draws nodes in the minimap like React Flow does, except that frames are
+ * drawn as labelled sections so the map shows how the flow is organised.
+ */
+export const MiniMapNode: React.FC<MiniMapNodeProps> = memo(({
+  id,
+  x,
+  y,
+  width,
+  height,
+  color,
+  strokeColor,
+  strokeWidth,
+  className,
+  borderRadius,
+  shapeRendering,
+  selected,
+  onClick,
+}) => {
+  const node = useInternalNode(id);
+  const isGroup = Boolean(node && isGroupNode(node));
+  const label = isGroup ? (node?.data.label as string) || 'Untitled section' : '';
+
+  return (
+    <g>
+      <rect
+        className={`react-flow__minimap-node ${selected ? 'selected' : ''} ${className}`}
+        x={x}
+        y={y}
+        rx={borderRadius}
+        ry={borderRadius}
+        width={width}
+        height={height}
+        style={{ fill: color, stroke: strokeColor, strokeWidth }}
+        shapeRendering={shapeRendering}
+        onClick={onClick ? (event) => onClick(event, id) : undefined}
+      />
+      {isGroup && (
+        <text x={x + 12} y={y + 32} fontSize={28} fontWeight={600} fill="hsl(var(--text-primary))" pointerEvents="none">
+          {label}
+        </text>
+      )}
+    </g>
+  );
+});
@@ -0,0 +1,180 @@
+import React from 'react';
+import { Handle, Position, useReactFlow } from '@xyflow/react';
+import { AlertCircle, AlertTriangle, CornerDownRight, LucideIcon } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+
+export type NodeAccent = 'start' | 'message' | 'condition' | 'question' | 'subflow' | 'jump';
+
+// Literal class names per accent so Tailwind can pick them up
+const accentStyles: Record<NodeAccent, { header: string; icon: string; title: string }> = {
+  start: {
+    header: 'border-start-node-border bg-start-node-bg',
+    icon: 'text-start-node',
+    title: 'text-start-node-text',
+  },
+  message: {
+    header: 'border-message-node-border bg-message-node-bg',
+    icon: 'text-message-node',
+    title: 'text-message-node-text',
+  },
+  condition: {
+    header: 'border-condition-node-border bg-condition-node-bg',
+    icon: 'text-condition-node',
+    title: 'text-condition-node-text',
+  },
+  question: {
+    header: 'border-question-node-border bg-question-node-bg',
+    icon: 'text-question-node',
+    title: 'text-question-node-text',
+  },
+  subflow: {
+    header: 'border-subflow-node-border bg-subflow-node-bg',
+    icon: 'text-subflow-node',
+    title: 'text-subflow-node-text',
+  },
+  jump: {
+    header: 'border-jump-node-border bg-jump-node-bg',
+    icon: 'text-jump-node',
+    title: 'text-jump-node-text',
+  },
+};
+
+export const handleClassName =
+  'w-3 h-3 bg-handle border-2 border-node-bg hover:bg-handle-hover hover:border-handle-connecting transition-colors';
+
+interface NodeCardProps {
+  id: string;
+  icon: LucideIcon;
+  label: string;
+  accent: NodeAccent;
+  selected: boolean;
+  /** Entry nodes have nothing leading into them */
+  hasTarget?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * NodeCard Component
+ *
+ * Shared chrome for flow nodes: card frame, colored header with icon and
+ * label, the target handle, the selection indicator, the preview and search
+ * highlights, error/warning badges from the flow analyzer and a marker for
+ * Jump nodes leading here (one click goes back to the jump). Node components
+ * render their body and source handles as children.
+ */
+export const NodeCard: React.FC<NodeCardProps> = ({
+  id,
+  icon: IconComponent,
+  label,
+  accent,
+  selected,
+  hasTarget = true,
+  children,
+}) => {
+  const styles = accentStyles[accent];
+  const { activeNodeId, diagnosticsByNode, jumpSourcesByTarget, focusNode, searchMatchIds } = useFlowEditor();
+  const { getNode } = useReactFlow();
+  const isActive = activeNodeId === id;
+  const isSearchMatch = searchMatchIds.has(id);
+  const diagnostics = diagnosticsByNode.get(id) ?? [];
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const jumpSources = jumpSourcesByTarget.get(id) ?? [];
+  const jumpMarkerClassName =
+    'nodrag flex items-center gap-1 rounded-full px-1.5 text-xs font-medium bg-jump-node-bg text-jump-node-text border border-jump-node-border hover:border-jump-node';
+
+  return (
+    <div className={`
+      relative bg-node-bg border-2 rounded-lg shadow-sm min-w-[200px] max-w-[280px]
+      ${selected ? 'border-selected shadow-md' : 'border-node-border'}
+      ${isActive ? 'ring-4 ring-primary/40' : isSearchMatch ? 'ring-4 ring-amber-300' : ''}
+      hover:shadow-md transition-all duration-200
+    `}>
+      {/* Target Handle - Can receive multiple connections */}
+      {hasTarget && (
+        <Handle
+          type="target"
+          position={Position.Left}
+          aria-label="Input"
+          className={handleClassName}
+          style={{ left: -6 }}
+        />
+      )}
+
+      {/* Node Header */}
+      <div className={`flex items-center gap-2 p-3 pb-2 border-b rounded-t-lg ${styles.header}`}>
+        <IconComponent className={`w-4 h-4 flex-shrink-0 ${styles.icon}`} />
+        <span className={`text-sm font-medium truncate ${styles.title}`}>
+          {label}
+        </span>
+
+        <div className="ml-auto flex items-center gap-1">
+          {/* Jump marker - the click must not select this node */}
+          {jumpSources.length === 1 && (
+            <button
+              type="button"
+              className={jumpMarkerClassName}
+              title="Go to the Jump node leading here"
+              onClick={(event) => {
+                event.stopPropagation();
+                focusNode(jumpSources[0]);
+              }}
+            >
+              <CornerDownRight className="w-3 h-3" />
+            </button>
+          )}
+          {jumpSources.length > 1 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className={jumpMarkerClassName}
+                  title="Jump nodes leading here"
+                  onClick={(event) => event.stopPropagation()}
+                >
+                  <CornerDownRight className="w-3 h-3" />
+                  {jumpSources.length}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Jumps leading here</DropdownMenuLabel>
+                {jumpSources.map((sourceId) => (
+                  <DropdownMenuItem key={sourceId} onSelect={() => focusNode(sourceId)}>
+                    {(getNode(sourceId)?.data.label as string) || sourceId}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {/* Problem badge - errors take precedence over warnings */}
+          {diagnostics.length > 0 && (
+            <span
+              className={`flex items-center gap-1 rounded-full px-1.5 text-xs font-medium ${
+                errorCount > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+              }`}
+              title={diagnostics.map((diagnostic) => diagnostic.message).join('\n')}
+            >
+              {errorCount > 0 ? <AlertCircle className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+              {errorCount > 0 ? errorCount : warningCount}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {children}
+
+      {/* Selection indicator */}
+      {selected && (
+        <div className="absolute -inset-1 border-2 border-selected rounded-lg pointer-events-none opacity-50" />
+      )}
+    </div>
+  );
+};
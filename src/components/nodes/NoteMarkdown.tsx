@@ -0,0 +1,85 @@
+import React from 'react';
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface NoteMarkdownProps {
+  text: string;
+}
+
+const renderInline = (parts: MarkdownInline[]): React.ReactNode[] =>
+  parts.map((part, index) => {
+    switch (part.type) {
+      case 'text':
+        return part.value;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-black/5 px-1 font-mono text-xs">
+            {part.value}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(part.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(part.children)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={part.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="nodrag underline underline-offset-2"
+          >
+            {renderInline(part.children)}
+          </a>
+        );
+    }
+  });
+
+// Literal class names per heading level so Tailwind can pick them up
+const headingStyles = {
+  1: 'text-base font-semibold',
+  2: 'text-sm font-semibold',
+  3: 'text-sm font-medium',
+};
+
+/**
+ * NoteMarkdown Component
+ *
+ * Renders a note's Markdown (see `src/lib/markdown.ts`) with React elements.
+ */
+export const NoteMarkdown: React.FC<NoteMarkdownProps> = ({ text }) => (
+  <div className="space-y-2 text-sm leading-relaxed break-words">
+    {parseMarkdown(text).map((block, index) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <div key={index} role="heading" aria-level={block.level} className={headingStyles[block.level]}>
+              {renderInline(block.children)}
+            </div>
+          );
+        case 'paragraph':
+          return (
+            <p key={index} className="whitespace-pre-line">
+              {renderInline(block.children)}
+            </p>
+          );
+        case 'quote':
+          return (
+            <blockquote key={index} className="whitespace-pre-line border-l-2 border-black/20 pl-2 opacity-80">
+              {renderInline(block.children)}
+            </blockquote>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+      }
+    })}
+  </div>
+);
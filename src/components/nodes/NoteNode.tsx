@@ -0,0 +1,125 @@
+import React, { memo, useState, useRef, useEffect } from 'react';
+import { NodeProps, NodeResizer, useReactFlow } from '@xyflow/react';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+import { DEFAULT_NOTE_SIZE, MIN_NOTE_SIZE, NoteColor } from '@/lib/flow/notes';
+import { NoteMarkdown } from './NoteMarkdown';
+import { noteColorStyles } from './note-styles';
+
+// Define the data structure for NoteNode
+export interface NoteNodeData {
+  /** Markdown content */
+  text: string;
+  color: NoteColor;
+  width: number;
+  height: number;
+}
+
+/**
+ * NoteNode Component
+ *
+ * A sticky note for documenting intent on the canvas.
+ * Features:
+ * - No handles; notes never take part in a conversation
+ * - Markdown content, edited in place on double-click
+ * - Resizable when selected, in one of a few colors
+ */
+export const NoteNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as NoteNodeData;
+  const { setNodes } = useReactFlow();
+  const { takeSnapshot, searchMatchIds } = useFlowEditor();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(nodeData.text || '');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const styles = noteColorStyles[nodeData.color] ?? noteColorStyles.yellow;
+
+  // Store the size in the node data so it is saved with the flow
+  const handleResize = (_: unknown, { width, height }: { width: number; height: number }) => {
+    setNodes((nds) =>
+      nds.map((node) => (node.id === id ? { ...node, data: { ...node.data, width, height } } : node))
+    );
+  };
+
+  // Handle double click to start editing
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditText(nodeData.text || '');
+  };
+
+  // Handle saving the edit (recorded as one undo step)
+  const handleSave = () => {
+    setIsEditing(false);
+    if (editText === nodeData.text) {
+      return;
+    }
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((node) => (node.id === id ? { ...node, data: { ...node.data, text: editText } } : node))
+    );
+  };
+
+  // Handle key press in textarea
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && e.ctrlKey) {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      setEditText(nodeData.text || '');
+      setIsEditing(false);
+    }
+  };
+
+  // Auto focus the editor when editing starts
+  useEffect(() => {
+    if (isEditing && textareaRef.current) {
+      textareaRef.current.focus();
+    }
+  }, [isEditing]);
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={MIN_NOTE_SIZE.width}
+        minHeight={MIN_NOTE_SIZE.height}
+        color="hsl(var(--selected))"
+        onResizeStart={() => takeSnapshot()}
+        onResize={handleResize}
+      />
+      <div
+        className={`
+          flex flex-col border rounded-md shadow-sm overflow-hidden ${styles.card}
+          ${selected ? 'ring-2 ring-selected' : searchMatchIds.has(id) ? 'ring-4 ring-amber-300' : ''}
+        `}
+        style={{
+          width: nodeData.width || DEFAULT_NOTE_SIZE.width,
+          height: nodeData.height || DEFAULT_NOTE_SIZE.height,
+        }}
+        onDoubleClick={isEditing ? undefined : handleDoubleClick}
+      >
+        {isEditing ? (
+          <div className="flex flex-col flex-1 min-h-0 p-2 gap-1">
+            <textarea
+              ref={textareaRef}
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={handleKeyPress}
+              onBlur={handleSave}
+              className="nodrag nowheel flex-1 min-h-0 w-full text-sm font-mono bg-white/60 border border-black/10 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-ring resize-none"
+              placeholder="Write a note... (Markdown)"
+            />
+            <span className="text-xs opacity-60">Ctrl+Enter to save • Esc to cancel</span>
+          </div>
+        ) : (
+          <div className={`flex-1 min-h-0 p-3 overflow-y-auto cursor-text ${selected ? 'nowheel' : ''}`}>
+            {nodeData.text ? (
+              <NoteMarkdown text={nodeData.text} />
+            ) : (
+              <span className="text-sm italic opacity-60">Double-click to write a note...</span>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+});
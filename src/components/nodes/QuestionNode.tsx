@@ -0,0 +1,77 @@
+import React, { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { HelpCircle } from 'lucide-react';
+import { getSourceHandles } from '@/lib/flow/handles';
+import { QuestionInputType, getInputTypeLabel } from '@/lib/flow/input-validation';
+import { TemplateText } from './TemplateText';
+import { NodeCard, handleClassName } from './NodeCard';
+
+// Define the data structure for QuestionNode
+export interface QuestionNodeData {
+  label: string;
+  /** The question sent to the user */
+  text: string;
+  inputType: QuestionInputType;
+  /** Only used when `inputType` is `regex` */
+  pattern?: string;
+  /** Variable the validated answer is stored in */
+  variable: string;
+  retryMessage: string;
+  maxRetries: number;
+}
+
+/**
+ * QuestionNode Component
+ *
+ * Asks the user a question and captures the answer into a variable.
+ * Features:
+ * - Validates the answer against the expected input type
+ * - Re-asks with the retry message up to `maxRetries` times
+ * - "Valid answer" and "Invalid after retries" source handles
+ */
+export const QuestionNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as QuestionNodeData;
+  const handles = getSourceHandles({ type: 'questionNode', data: nodeData });
+
+  return (
+    <NodeCard id={id} icon={HelpCircle} label={nodeData.label || 'Question'} accent="question" selected={selected}>
+      {/* Node Content */}
+      <div className="p-3 space-y-2">
+        <div className="text-sm text-text-primary leading-relaxed">
+          {nodeData.text ? (
+            <TemplateText text={nodeData.text} maxLength={100} />
+          ) : (
+            <span className="text-text-muted italic">No question text</span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <span className="px-1.5 py-0.5 rounded bg-question-node-bg text-question-node-text">
+            {getInputTypeLabel(nodeData.inputType)}
+          </span>
+          {nodeData.variable && (
+            <span className="text-text-secondary">
+              saves to <code className="font-mono">{nodeData.variable}</code>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Outcomes - one source handle each */}
+      <div className="pb-1 border-t border-node-border">
+        {handles.map((handle) => (
+          <div key={handle.id} className="relative px-3 py-1.5 text-xs text-text-secondary text-right">
+            {handle.label}
+            <Handle
+              id={handle.id}
+              type="source"
+              position={Position.Right}
+              aria-label={`Output: ${handle.label}`}
+              className={handleClassName}
+              style={{ right: -6 }}
+            />
+          </div>
+        ))}
+      </div>
+    </NodeCard>
+  );
+});
@@ -0,0 +1,67 @@
+import React, { memo, useEffect } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from '@xyflow/react';
+import { Flag } from 'lucide-react';
+import { StartTrigger, describeTrigger } from '@/lib/flow/start';
+import { NodeCard, handleClassName } from './NodeCard';
+
+// Define the data structure for StartNode
+export interface StartNodeData {
+  label: string;
+  triggers: StartTrigger[];
+}
+
+/**
+ * StartNode Component
+ *
+ * The flow's single entry point. It cannot be deleted and has no target handle.
+ * Features:
+ * - Default source handle, taken when no trigger matches
+ * - One source handle per trigger (keyword, intent or deep link)
+ * - Handle ids are the trigger ids, so edges stay attached when triggers are reordered
+ */
+export const StartNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as StartNodeData;
+  const triggers = nodeData.triggers || [];
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handleKey = triggers.map((trigger) => trigger.id).join('|');
+
+  // Handles move when triggers are added, removed or reordered
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  return (
+    <NodeCard id={id} icon={Flag} label={nodeData.label || 'Start'} accent="start" selected={selected} hasTarget={false}>
+      <div className="py-2 space-y-1">
+        {/* Default entry */}
+        <div className="relative px-3">
+          <div className="text-xs text-text-secondary py-1">Conversation starts</div>
+          <Handle
+            type="source"
+            position={Position.Right}
+            aria-label="Output: Conversation starts"
+            className={handleClassName}
+            style={{ right: -6 }}
+          />
+        </div>
+
+        {/* Triggers - one source handle each */}
+        {triggers.map((trigger) => (
+          <div key={trigger.id} className="relative px-3">
+            <div className="text-xs font-medium text-start-node-text bg-start-node-bg border border-start-node-border rounded px-2 py-1 truncate">
+              {describeTrigger(trigger)}
+            </div>
+            <Handle
+              id={trigger.id}
+              type="source"
+              position={Position.Right}
+              aria-label={`Output: ${describeTrigger(trigger)}`}
+              className={handleClassName}
+              style={{ right: -6 }}
+            />
+          </div>
+        ))}
+      </div>
+    </NodeCard>
+  );
+});
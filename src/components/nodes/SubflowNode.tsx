@@ -0,0 +1,89 @@
+import React, { memo, useEffect } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from '@xyflow/react';
+import { Link } from 'react-router-dom';
+import { ExternalLink, Workflow } from 'lucide-react';
+import { useFlowListQuery } from '@/hooks/use-flow-repository';
+import { getSourceHandles } from '@/lib/flow/handles';
+import type { SubflowExit, VariableMapping } from '@/lib/flow/subflows';
+import { NodeCard, handleClassName } from './NodeCard';
+
+// Define the data structure for SubflowNode
+export interface SubflowNodeData {
+  label: string;
+  flowId: string;
+  inputs: VariableMapping[];
+  outputs: VariableMapping[];
+  exits: SubflowExit[];
+}
+
+/**
+ * SubflowNode Component
+ *
+ * Runs another flow of the workspace, then continues from where it ended.
+ * Features:
+ * - Shows the called flow with a link to open it
+ * - One source handle per exit point of the called flow (its nodes marked
+ *   as the end of the conversation), or a single "Done" handle without them
+ * - Handle ids are the exit node ids, so edges survive exits being renamed
+ */
+export const SubflowNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
+  const nodeData = data as unknown as SubflowNodeData;
+  const updateNodeInternals = useUpdateNodeInternals();
+  const flowsQuery = useFlowListQuery();
+  const calledFlow = flowsQuery.data?.find((flow) => flow.id === nodeData.flowId);
+  const handles = getSourceHandles({ type: 'subflowNode', data: nodeData });
+  const handleKey = handles.map((handle) => handle.id).join('|');
+  const inputCount = nodeData.inputs?.length ?? 0;
+  const outputCount = nodeData.outputs?.length ?? 0;
+
+  // Handles move when the called flow's exits change
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  return (
+    <NodeCard id={id} icon={Workflow} label={nodeData.label || 'Sub-flow'} accent="subflow" selected={selected}>
+      {/* Called flow */}
+      <div className="px-3 pt-2 pb-1">
+        {nodeData.flowId ? (
+          <div className="flex items-center gap-1 text-xs font-medium text-subflow-node-text bg-subflow-node-bg border border-subflow-node-border rounded px-2 py-1">
+            <span className="flex-1 truncate">{calledFlow?.name ?? 'Missing flow'}</span>
+            {calledFlow && (
+              <Link
+                to={`/flows/${calledFlow.id}`}
+                title="Open the called flow"
+                className="nodrag shrink-0 hover:text-subflow-node"
+              >
+                <ExternalLink className="w-3 h-3" />
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs italic text-text-muted">No flow selected</div>
+        )}
+        {(inputCount > 0 || outputCount > 0) && (
+          <div className="text-xs text-text-muted mt-1">
+            {inputCount} input{inputCount === 1 ? '' : 's'} · {outputCount} output{outputCount === 1 ? '' : 's'}
+          </div>
+        )}
+      </div>
+
+      {/* Exits - one source handle each */}
+      <div className="pb-1">
+        {handles.map((handle) => (
+          <div key={handle.id ?? 'default'} className="relative px-3 py-1.5 text-xs text-text-primary">
+            <span className={handle.id === null ? 'italic text-text-secondary' : ''}>{handle.label}</span>
+            <Handle
+              id={handle.id}
+              type="source"
+              position={Position.Right}
+              aria-label={`Output: ${handle.label}`}
+              className={handleClassName}
+              style={{ right: -6 }}
+            />
+          </div>
+        ))}
+      </div>
+    </NodeCard>
+  );
+});
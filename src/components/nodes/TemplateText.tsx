@@ -0,0 +1,48 @@
+import React from 'react';
+import { parseTemplate } from '@/lib/flow/templates';
+
+interface TemplateTextProps {
+  text: string;
+  /** Truncates the visible text (placeholders count by their name) */
+  maxLength?: number;
+}
+
+/**
+ * TemplateText Component
+ *
+ * Renders message text with `{{variable}}` placeholders shown as chips.
+ */
+export const TemplateText: React.FC<TemplateTextProps> = ({ text, maxLength = Infinity }) => {
+  const parts = parseTemplate(text);
+  const rendered: React.ReactNode[] = [];
+  let remaining = maxLength;
+
+  for (const [index, part] of parts.entries()) {
+    if (remaining <= 0) {
+      rendered.push('...');
+      break;
+    }
+
+    if (part.type === 'text') {
+      if (part.value.length > remaining) {
+        rendered.push(`${part.value.substring(0, remaining)}...`);
+        break;
+      }
+      rendered.push(part.value);
+      remaining -= part.value.length;
+    } else {
+      rendered.push(
+        <span
+          key={index}
+          className="inline-flex items-center rounded border border-border bg-secondary px-1 font-mono text-xs text-text-secondary"
+          title={part.fallback !== undefined ? `Default: "${part.fallback}"` : undefined}
+        >
+          {part.name}
+        </span>
+      );
+      remaining -= part.name.length;
+    }
+  }
+
+  return <>{rendered}</>;
+};
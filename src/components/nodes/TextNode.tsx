@@ -1,11 +1,19 @@
 import React, { memo, useState, useRef, useEffect } from 'react';
 import { Handle, Position, NodeProps, useReactFlow } from '@xyflow/react';
-import { MessageSquare, Edit3 } from 'lucide-react';
+import { MessageSquare, Edit3, CircleStop, Paperclip } from 'lucide-react';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+import { MessageMedia, getMediaFileName, getMediaTypeLabel } from '@/lib/flow/media';
+import { TemplateText } from './TemplateText';
+import { NodeCard, handleClassName } from './NodeCard';
 
 // Define the data structure for TextNode
 export interface TextNodeData {
   text: string;
   label: string;
+  /** Marks the message as an intended end of the conversation */
+  terminal?: boolean;
+  /** File sent with the message; the text is its caption */
+  media?: MessageMedia;
 }
 
 /**
@@ -16,11 +24,14 @@ export interface TextNodeData {
  * - Single source handle (only one outgoing connection allowed)
  * - Multiple target handles (can receive multiple connections)
  * - Displays message text with truncation
+ * - Shows the attached file, if any
+ * - Shows an "Ends conversation" marker when the node is terminal
  * - Visual feedback for selection and connection states
  */
 export const TextNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
   const nodeData = data as unknown as TextNodeData;
   const { setNodes } = useReactFlow();
+  const { takeSnapshot } = useFlowEditor();
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(nodeData.text || '');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -32,8 +43,14 @@ export const TextNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
     setEditText(nodeData.text || '');
   };
 
-  // Handle saving the edit
+  // Handle saving the edit (recorded as one undo step)
   const handleSave = () => {
+    if (editText === nodeData.text) {
+      setIsEditing(false);
+      return;
+    }
+
+    takeSnapshot();
     setNodes((nds) =>
       nds.map((node) =>
         node.id === id
@@ -67,27 +84,7 @@ export const TextNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
     }
   }, [isEditing]);
   return (
-    <div className={`
-      relative bg-node-bg border-2 rounded-lg shadow-sm min-w-[200px] max-w-[280px]
-      ${selected ? 'border-selected shadow-md' : 'border-node-border'}
-      hover:shadow-md transition-all duration-200
-    `}>
-      {/* Target Handle - Can receive multiple connections */}
-      <Handle
-        type="target"
-        position={Position.Left}
-        className="w-3 h-3 bg-handle border-2 border-node-bg hover:bg-handle-hover hover:border-handle-connecting transition-colors"
-        style={{ left: -6 }}
-      />
-
-      {/* Node Header */}
-      <div className="flex items-center gap-2 p-3 pb-2 border-b border-message-node-border bg-message-node-bg rounded-t-lg">
-        <MessageSquare className="w-4 h-4 text-message-node flex-shrink-0" />
-        <span className="text-sm font-medium text-message-node-text truncate">
-          {nodeData.label || 'Message'}
-        </span>
-      </div>
-
+    <NodeCard id={id} icon={MessageSquare} label={nodeData.label || 'Message'} accent="message" selected={selected}>
       {/* Node Content */}
       <div className="p-3">
         {isEditing ? (
@@ -113,7 +110,7 @@ export const TextNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
           >
             {nodeData.text ? (
               <span className="block">
-                {nodeData.text.length > 100 ? `${nodeData.text.substring(0, 100)}...` : nodeData.text}
+                <TemplateText text={nodeData.text} maxLength={100} />
               </span>
             ) : (
               <span className="text-text-muted italic">Double-click to edit message...</span>
@@ -127,18 +124,31 @@ export const TextNode: React.FC<NodeProps> = memo(({ id, data, selected }) => {
         )}
       </div>
 
+      {nodeData.media && (
+        <div className="flex items-center gap-1 px-3 pb-2 text-xs text-text-secondary" title={nodeData.media.url}>
+          <Paperclip className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">
+            {getMediaTypeLabel(nodeData.media.type)}
+            {nodeData.media.url ? `: ${getMediaFileName(nodeData.media.url)}` : ' (no URL)'}
+          </span>
+        </div>
+      )}
+
+      {nodeData.terminal && (
+        <div className="flex items-center gap-1 px-3 pb-2 text-xs text-text-muted">
+          <CircleStop className="w-3 h-3" />
+          Ends conversation
+        </div>
+      )}
+
       {/* Source Handle - Only one outgoing connection allowed */}
       <Handle
         type="source"
         position={Position.Right}
-        className="w-3 h-3 bg-handle border-2 border-node-bg hover:bg-handle-hover hover:border-handle-connecting transition-colors"
+        aria-label="Output"
+        className={handleClassName}
         style={{ right: -6 }}
       />
-
-      {/* Selection indicator */}
-      {selected && (
-        <div className="absolute -inset-1 border-2 border-selected rounded-lg pointer-events-none opacity-50" />
-      )}
-    </div>
+    </NodeCard>
   );
 });
\ No newline at end of file
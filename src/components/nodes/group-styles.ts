@@ -0,0 +1,41 @@
+import type { GroupColor } from '@/lib/flow/groups';
+
+// Literal class names per frame color so Tailwind can pick them up; `minimap` is a plain CSS color
+export const groupColorStyles: Record<GroupColor, { frame: string; title: string; swatch: string; minimap: string }> = {
+  gray: {
+    frame: 'bg-slate-100/60 border-slate-300',
+    title: 'text-slate-700',
+    swatch: 'bg-slate-200 border-slate-400',
+    minimap: 'hsl(215 20% 65% / 0.35)',
+  },
+  blue: {
+    frame: 'bg-sky-100/60 border-sky-300',
+    title: 'text-sky-800',
+    swatch: 'bg-sky-200 border-sky-400',
+    minimap: 'hsl(199 89% 48% / 0.25)',
+  },
+  green: {
+    frame: 'bg-green-100/60 border-green-300',
+    title: 'text-green-800',
+    swatch: 'bg-green-200 border-green-400',
+    minimap: 'hsl(142 71% 45% / 0.25)',
+  },
+  yellow: {
+    frame: 'bg-amber-100/60 border-amber-300',
+    title: 'text-amber-800',
+    swatch: 'bg-amber-200 border-amber-400',
+    minimap: 'hsl(38 92% 50% / 0.25)',
+  },
+  pink: {
+    frame: 'bg-pink-100/60 border-pink-300',
+    title: 'text-pink-800',
+    swatch: 'bg-pink-200 border-pink-400',
+    minimap: 'hsl(330 81% 60% / 0.25)',
+  },
+  purple: {
+    frame: 'bg-violet-100/60 border-violet-300',
+    title: 'text-violet-800',
+    swatch: 'bg-violet-200 border-violet-400',
+    minimap: 'hsl(258 90% 66% / 0.25)',
+  },
+};
@@ -0,0 +1,10 @@
+import type { NoteColor } from '@/lib/flow/notes';
+
+// Literal class names per note color so Tailwind can pick them up
+export const noteColorStyles: Record<NoteColor, { card: string; swatch: string }> = {
+  yellow: { card: 'bg-yellow-100 border-yellow-300 text-yellow-950', swatch: 'bg-yellow-200 border-yellow-400' },
+  blue: { card: 'bg-sky-100 border-sky-300 text-sky-950', swatch: 'bg-sky-200 border-sky-400' },
+  green: { card: 'bg-green-100 border-green-300 text-green-950', swatch: 'bg-green-200 border-green-400' },
+  pink: { card: 'bg-pink-100 border-pink-300 text-pink-950', swatch: 'bg-pink-200 border-pink-400' },
+  gray: { card: 'bg-slate-100 border-slate-300 text-slate-900', swatch: 'bg-slate-200 border-slate-400' },
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Node } from '@xyflow/react';
+import { CaseSensitive, Regex, Replace, ReplaceAll, Search, WholeWord, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { getNodeName } from '@/lib/flow/navigation';
+import { SearchMatch, SearchOptions } from '@/lib/flow/search';
+
+interface FindReplacePanelProps {
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  /** Matches of the current search, in node order */
+  matches: SearchMatch[];
+  /** Why the search can't run, e.g. an invalid regular expression */
+  error?: string;
+  /** Nodes being searched, for naming the nodes of matches */
+  nodes: Node[];
+  onSelectNode: (nodeId: string) => void;
+  /** Replaces one match, or every match when `match` is omitted (one undo step) */
+  onReplace: (replacement: string, match?: SearchMatch) => void;
+  onClose: () => void;
+  /** Changes whenever the find field should take focus again (e.g. Ctrl+F while open) */
+  focusRequest: number;
+}
+
+/**
+ * FindReplacePanel Component
+ *
+ * Finds text in the labels and texts of all nodes, e.g. for a brand rename
+ * or a new support phone number, without opening every node.
+ * Features:
+ * - Match case, whole word and regular expression options
+ * - Matches listed in context; clicking one selects its node
+ * - Enter / Shift+Enter step through the matches on the canvas
+ * - Replace one match or all of them, each as a single undo step
+ */
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  options,
+  onOptionsChange,
+  matches,
+  error,
+  nodes,
+  onSelectNode,
+  onReplace,
+  onClose,
+  focusRequest,
+}) => {
+  const [replacement, setReplacement] = useState('');
+  const [current, setCurrent] = useState(-1);
+  const queryRef = useRef<HTMLInputElement>(null);
+  const nodeNames = new Map(nodes.map((node) => [node.id, getNodeName(node)]));
+  const nodeCount = new Set(matches.map((match) => match.nodeId)).size;
+
+  // Focus the find field when the panel opens or is asked for again
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [focusRequest]);
+
+  // Step through matches with Enter (Shift+Enter backwards); Escape closes the panel
+  const handleQueryKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    } else if (event.key === 'Enter' && matches.length > 0) {
+      event.preventDefault();
+      const next = (current + (event.shiftKey ? -1 : 1) + matches.length) % matches.length;
+      setCurrent(next);
+      onSelectNode(matches[next].nodeId);
+    }
+  };
+
+  // Update one search option; the match position starts over
+  const updateOptions = (changes: Partial<SearchOptions>) => {
+    setCurrent(-1);
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  const optionToggles = [
+    { key: 'matchCase', label: 'Match case', icon: CaseSensitive },
+    { key: 'wholeWord', label: 'Whole word', icon: WholeWord },
+    { key: 'useRegex', label: 'Regular expression', icon: Regex },
+  ] as const;
+
+  return (
+    <div className="w-96 bg-panel-bg border border-panel-border rounded-lg shadow-md flex flex-col max-h-[70vh]">
+      {/* Panel Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-panel-border">
+        <Search className="w-4 h-4 text-text-secondary" />
+        <h2 className="text-sm font-semibold text-text-primary">Find and replace</h2>
+        <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onClose} title="Close (Escape)">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Search Fields */}
+      <div className="p-3 space-y-2 border-b border-panel-border">
+        <div className="flex items-center gap-1">
+          <Input
+            ref={queryRef}
+            value={options.query}
+            onChange={(e) => updateOptions({ query: e.target.value })}
+            onKeyDown={handleQueryKeyDown}
+            placeholder="Find in labels and texts"
+            aria-label="Find"
+            className={`h-9 bg-node-bg ${error ? 'border-red-500 focus-visible:ring-red-500' : 'border-input'}`}
+          />
+          {optionToggles.map((toggle) => {
+            const IconComponent = toggle.icon;
+            return (
+              <Toggle
+                key={toggle.key}
+                size="sm"
+                pressed={options[toggle.key]}
+                onPressedChange={(pressed) => updateOptions({ [toggle.key]: pressed })}
+                title={toggle.label}
+                aria-label={toggle.label}
+                className="h-9 w-9 px-0 flex-shrink-0"
+              >
+                <IconComponent className="w-4 h-4" />
+              </Toggle>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-1">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(event) => event.key === 'Escape' && onClose()}
+            placeholder={options.useRegex ? 'Replace with ($1 for groups)' : 'Replace with'}
+            aria-label="Replace with"
+            className="h-9 bg-node-bg border-input"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 flex-shrink-0"
+            disabled={matches.length === 0}
+            onClick={() => onReplace(replacement)}
+            title="Replace all matches"
+          >
+            <ReplaceAll className="w-4 h-4 mr-1" />
+            All
+          </Button>
+        </div>
+        <p className={`text-xs ${error ? 'text-red-600' : 'text-text-muted'}`} aria-live="polite">
+          {error ?? (options.query
+            ? `${matches.length} match${matches.length === 1 ? '' : 'es'} in ${nodeCount} node${nodeCount === 1 ? '' : 's'}`
+            : 'Searches the labels and texts of all nodes')}
+        </p>
+      </div>
+
+      {/* Matches */}
+      {matches.length > 0 && (
+        <ul className="flex-1 min-h-0 overflow-y-auto p-1">
+          {matches.map((match, index) => (
+            <li
+              key={`${match.nodeId}:${match.field}:${match.index}`}
+              className={`group flex items-start gap-2 rounded-md px-2 py-1.5 ${index === current ? 'bg-secondary' : 'hover:bg-secondary'}`}
+            >
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                onClick={() => {
+                  setCurrent(index);
+                  onSelectNode(match.nodeId);
+                }}
+              >
+                <div className="flex items-center gap-2 text-xs text-text-secondary">
+                  <span className="truncate font-medium">{nodeNames.get(match.nodeId)}</span>
+                  <span className="flex-shrink-0 text-text-muted">{match.field}</span>
+                </div>
+                <div className="truncate text-sm text-text-primary">
+                  {match.before}
+                  <mark className="bg-amber-200 text-text-primary rounded-sm">{match.text}</mark>
+                  {match.after}
+                </div>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                onClick={() => onReplace(replacement, match)}
+                title="Replace this match"
+                aria-label="Replace this match"
+              >
+                <Replace className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
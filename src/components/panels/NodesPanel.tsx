@@ -1,81 +1,52 @@
 import React from 'react';
-import { MessageSquare, Plus } from 'lucide-react';
+import { Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { nodeCatalog, nodeColorStyles } from './node-catalog';
 
 interface NodesPanelProps {
-  onAddNode: (type: string, position: { x: number; y: number }) => void;
+  onAddNode: (type: string, position?: { x: number; y: number }) => void;
 }
 
 /**
  * NodesPanel Component
  * 
  * Displays available node types that can be added to the flow.
- * Designed to be extensible for future node types.
+ * Designed to be extensible for future node types (see `node-catalog.ts`).
  * 
  * Current node types:
  * - Text Message Node: For sending text messages in the chatbot flow
+ * - Condition Node: For branching the flow on variable values
+ * - Quick Replies Node: For a message with buttons, each leading to its own next step
+ * - Question Node: For asking users a question and storing the answer
+ * - Sub-flow Node: For running another flow of the workspace
+ * - Jump Node: For continuing at a distant node without drawing an edge
+ * - Note: For documenting intent on the canvas (not part of the conversation)
+ * - Frame: For grouping a section of the flow into a collapsible, named area
  * 
  * Future extensibility:
  * - Image nodes
- * - Conditional nodes  
  * - API call nodes
- * - User input nodes
  */
 export const NodesPanel: React.FC<NodesPanelProps> = ({ onAddNode }) => {
-  
-  // Define available node types - easily extensible
-  const nodeTypes = [
-    {
-      id: 'textNode',
-      label: 'Message',
-      description: 'Send a text message to users',
-      icon: MessageSquare,
-      color: 'message-node',
-      category: 'Messages'
-    },
-    // Future node types can be added here:
-    // {
-    //   id: 'imageNode', 
-    //   label: 'Image',
-    //   description: 'Send an image to users',
-    //   icon: Image,
-    //   color: 'image-node',
-    //   category: 'Media'
-    // },
-    // {
-    //   id: 'conditionNode',
-    //   label: 'Condition', 
-    //   description: 'Branch flow based on conditions',
-    //   icon: GitBranch,
-    //   color: 'condition-node',
-    //   category: 'Logic'
-    // }
-  ];
-
   // Handle drag start - set the node type for drag and drop
   const onDragStart = (event: React.DragEvent, nodeType: string) => {
     event.dataTransfer.setData('application/reactflow', nodeType);
     event.dataTransfer.effectAllowed = 'move';
   };
 
-  // Handle adding a new node at a default position (fallback for click)
+  // Handle adding a new node by click - the builder picks a free spot for it
   const handleAddNode = (nodeType: string) => {
-    // Add node at center of viewport with some randomization to avoid overlap
-    const position = {
-      x: 200 + Math.random() * 100,
-      y: 200 + Math.random() * 100
-    };
-    onAddNode(nodeType, position);
+    onAddNode(nodeType);
   };
 
   // Group nodes by category for better organization
-  const groupedNodes = nodeTypes.reduce((acc, node) => {
+  const groupedNodes = nodeCatalog.reduce((acc, node) => {
     if (!acc[node.category]) {
       acc[node.category] = [];
     }
     acc[node.category].push(node);
     return acc;
-  }, {} as Record<string, typeof nodeTypes>);
+  }, {} as Record<string, typeof nodeCatalog>);
 
   return (
     <div className="h-full flex flex-col">
@@ -103,6 +74,7 @@ export const NodesPanel: React.FC<NodesPanelProps> = ({ onAddNode }) => {
             <div className="space-y-2">
               {nodes.map((nodeType) => {
                 const IconComponent = nodeType.icon;
+                const styles = nodeColorStyles[nodeType.color];
                 return (
                   <div
                     key={nodeType.id}
@@ -112,17 +84,17 @@ export const NodesPanel: React.FC<NodesPanelProps> = ({ onAddNode }) => {
                   >
                     <Button
                       variant="outline"
-                      className="w-full justify-start p-4 h-auto bg-node-bg hover:bg-secondary border-node-border hover:border-message-node-border transition-all duration-200 cursor-grab active:cursor-grabbing"
+                      className={`w-full justify-start p-4 h-auto bg-node-bg hover:bg-secondary border-node-border ${styles.card} transition-all duration-200 cursor-grab active:cursor-grabbing`}
                       onClick={() => handleAddNode(nodeType.id)}
                     >
                       <div className="flex items-start gap-3 w-full">
                         {/* Node Icon */}
                         <div className={`
-                          p-2 rounded-lg bg-message-node-bg border border-message-node-border
-                          group-hover:bg-message-node group-hover:border-message-node transition-all duration-200
+                          p-2 rounded-lg border ${styles.iconBox}
+                          transition-all duration-200
                         `}>
                           <IconComponent className={`
-                            w-4 h-4 text-message-node
+                            w-4 h-4 ${styles.icon}
                             group-hover:text-white transition-colors duration-200
                           `} />
                         </div>
@@ -167,9 +139,12 @@ export const NodesPanel: React.FC<NodesPanelProps> = ({ onAddNode }) => {
             <div className="font-medium mb-1">💡 Tips:</div>
             <ul className="space-y-1">
               <li>• Drag nodes onto the canvas or click to add</li>
+              <li>• Click with a node selected to add and connect after it</li>
               <li>• Double-click message text to edit inline</li>
               <li>• Connect nodes to define message sequence</li>
               <li>• Each source can have only one connection</li>
+              <li>• Press Ctrl+K to search nodes and commands</li>
+              <li>• Use the arrow keys to walk the flow, C to connect</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Node } from '@xyflow/react';
+import { ChevronDown, ChevronRight, Frame, ListTree } from 'lucide-react';
+import { isAnnotationNode } from '@/lib/flow/annotations';
+import { isCollapsedGroup, isGroupNode } from '@/lib/flow/groups';
+import { groupColorStyles } from '../nodes/group-styles';
+import type { GroupNodeData } from '../nodes/GroupNode';
+
+interface OutlinePanelProps {
+  nodes: Node[];
+  onSelectNode: (nodeId: string) => void;
+  onToggleGroup: (groupId: string) => void;
+}
+
+const getNodeLabel = (node: Node) => (node.data.label as string) || node.id;
+
+/**
+ * OutlinePanel Component
+ *
+ * The flow's sections at a glance: every frame with the nodes inside it,
+ * followed by the nodes that aren't in a frame. Notes are left out.
+ * Features:
+ * - Clicking a frame or node selects it and brings it into view (expanding
+ *   its frame if needed)
+ * - Frames can be collapsed and expanded from the outline
+ */
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ nodes, onSelectNode, onToggleGroup }) => {
+  const groups = nodes.filter(isGroupNode);
+  const ungrouped = nodes.filter((node) => !node.parentId && !isAnnotationNode(node));
+  const getChildren = (groupId: string) =>
+    nodes.filter((node) => node.parentId === groupId && !isAnnotationNode(node));
+
+  const renderNodeItem = (node: Node) => (
+    <li key={node.id}>
+      <button
+        type="button"
+        onClick={() => onSelectNode(node.id)}
+        className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-text-primary hover:bg-secondary transition-colors"
+      >
+        <span className="truncate">{getNodeLabel(node)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Panel Header */}
+      <div className="p-4 border-b border-panel-border">
+        <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <ListTree className="w-5 h-5" />
+          Outline
+        </h2>
+        <p className="text-sm text-text-secondary mt-1">
+          {groups.length} section{groups.length === 1 ? '' : 's'}. Select nodes and press Ctrl+G to frame them.
+        </p>
+      </div>
+
+      {/* Sections */}
+      <div className="flex-1 p-2 overflow-y-auto space-y-3">
+        {groups.map((group) => {
+          const groupData = group.data as unknown as GroupNodeData;
+          const styles = groupColorStyles[groupData.color] ?? groupColorStyles.gray;
+          const collapsed = isCollapsedGroup(group);
+          const children = getChildren(group.id);
+          return (
+            <section key={group.id}>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => onToggleGroup(group.id)}
+                  title={collapsed ? 'Expand frame' : 'Collapse frame'}
+                  aria-expanded={!collapsed}
+                  className="p-1 rounded text-text-secondary hover:bg-secondary"
+                >
+                  {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSelectNode(group.id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-secondary transition-colors"
+                >
+                  <span className={`w-3 h-3 flex-shrink-0 rounded-sm border ${styles.swatch}`} />
+                  <span className="truncate text-sm font-medium text-text-primary">
+                    {groupData.label || 'Untitled section'}
+                  </span>
+                  <span className="ml-auto text-xs text-text-muted">{children.length}</span>
+                </button>
+              </div>
+              {children.length === 0 ? (
+                <p className="pl-9 py-1 text-xs text-text-muted italic">Empty frame</p>
+              ) : (
+                <ul className="pl-7">{children.map(renderNodeItem)}</ul>
+              )}
+            </section>
+          );
+        })}
+
+        {ungrouped.length > 0 && (
+          <section>
+            <h3 className="flex items-center gap-2 px-2 py-1.5 text-xs font-medium text-text-secondary uppercase tracking-wide">
+              <Frame className="w-3.5 h-3.5" />
+              {groups.length > 0 ? 'Not in a frame' : 'All nodes'}
+            </h3>
+            <ul>{ungrouped.map(renderNodeItem)}</ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Paperclip, Play, RotateCcw, Send, StepBack } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useFlowSimulator } from '@/hooks/use-flow-simulator';
+import { useFlowListQuery } from '@/hooks/use-flow-repository';
+import type { FlowDocument } from '@/lib/flow/document';
+import { getMediaFileName, getMediaTypeLabel, isWebUrl } from '@/lib/flow/media';
+
+interface PreviewSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Live document built from the canvas; edits apply to the running preview */
+  flowDocument: FlowDocument;
+  /** Node selected on the canvas, offered as an alternative starting point */
+  selectedNodeId: string | null;
+  /** Reports the node currently executing so the canvas can highlight it */
+  onActiveNodeChange: (nodeId: string | null) => void;
+}
+
+/**
+ * PreviewSheet Component
+ *
+ * Chat simulator for test-running the flow inside the builder, powered by
+ * the headless `FlowRuntime`.
+ * Features:
+ * - Conversation rendered as chat bubbles
+ * - Waits for typed answers at question nodes and button presses at quick replies
+ * - Restart, step back and start from the selected node
+ * - Steps into the saved versions of flows called by Sub-flow nodes
+ * - The canvas stays interactive while the preview is open
+ */
+export const PreviewSheet: React.FC<PreviewSheetProps> = ({
+  open,
+  onOpenChange,
+  flowDocument,
+  selectedNodeId,
+  onActiveNodeChange,
+}) => {
+  const flowsQuery = useFlowListQuery();
+  const simulator = useFlowSimulator(flowDocument, flowsQuery.data);
+  const { start, reset, activeNodeId, transcript } = simulator;
+  const [draft, setDraft] = useState('');
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  // Start a fresh conversation each time the preview opens (flow edits don't restart it)
+  useEffect(() => {
+    if (open) {
+      start();
+    } else {
+      reset();
+    }
+  }, [open, start, reset]);
+
+  useEffect(() => {
+    onActiveNodeChange(activeNodeId);
+  }, [activeNodeId, onActiveNodeChange]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [transcript.length]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim()) {
+      return;
+    }
+    simulator.send({ type: 'text', text: draft });
+    setDraft('');
+  };
+
+  const lastEntry = transcript[transcript.length - 1];
+  const activeSubflow = simulator.activeFlowId !== flowDocument.id && !simulator.finished
+    ? flowsQuery.data?.find((flow) => flow.id === simulator.activeFlowId)
+    : undefined;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange} modal={false}>
+      <SheetContent
+        side="right"
+        className="flex flex-col p-0 gap-0 bg-panel-bg"
+        onInteractOutside={(event) => event.preventDefault()}
+      >
+        <SheetHeader className="p-4 border-b border-panel-border">
+          <SheetTitle>Preview</SheetTitle>
+          <SheetDescription>Chat with your bot to test the flow.</SheetDescription>
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" size="sm" onClick={() => start()}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Restart
+            </Button>
+            <Button variant="outline" size="sm" onClick={simulator.stepBack} disabled={!simulator.canStepBack}>
+              <StepBack className="w-4 h-4 mr-1" />
+              Step back
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectedNodeId && start(selectedNodeId)}
+              disabled={!selectedNodeId}
+              title="Start the conversation from the node selected on the canvas"
+            >
+              <Play className="w-4 h-4 mr-1" />
+              From selected
+            </Button>
+          </div>
+        </SheetHeader>
+
+        {/* Transcript */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-canvas">
+          {transcript.map((entry) => {
+            if (entry.from === 'system') {
+              return (
+                <div key={entry.id} className="text-center text-xs text-text-muted italic">
+                  {entry.text}
+                </div>
+              );
+            }
+
+            const isUser = entry.from === 'user';
+            return (
+              <div key={entry.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+                <div className="max-w-[80%] space-y-1">
+                  <div
+                    className={`px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap ${
+                      isUser
+                        ? 'bg-primary text-primary-foreground rounded-br-sm'
+                        : 'bg-node-bg border border-node-border text-text-primary rounded-bl-sm'
+                    }`}
+                  >
+                    {/* Only web addresses are loaded or linked; other URLs are shown as plain text */}
+                    {entry.media && (
+                      entry.media.type === 'image' && isWebUrl(entry.media.url) ? (
+                        <img src={entry.media.url} alt="" className="mb-1 max-h-40 rounded-lg" />
+                      ) : isWebUrl(entry.media.url) ? (
+                        <a
+                          href={entry.media.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="mb-1 flex items-center gap-1 text-xs underline"
+                        >
+                          <Paperclip className="w-3 h-3 flex-shrink-0" />
+                          {getMediaTypeLabel(entry.media.type)}: {getMediaFileName(entry.media.url)}
+                        </a>
+                      ) : (
+                        <div className="mb-1 flex items-center gap-1 text-xs">
+                          <Paperclip className="w-3 h-3 flex-shrink-0" />
+                          {getMediaTypeLabel(entry.media.type)}
+                          {entry.media.url ? `: ${getMediaFileName(entry.media.url)}` : ' (no URL)'}
+                        </div>
+                      )
+                    )}
+                    {entry.text || (!entry.media && <span className="italic text-text-muted">(empty message)</span>)}
+                  </div>
+                  {entry.buttons && (
+                    <div className="flex flex-wrap gap-1">
+                      {entry.buttons.map((button) => (
+                        <Button
+                          key={button.id}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 rounded-full text-xs border-message-node-border text-message-node-text"
+                          disabled={entry !== lastEntry || !simulator.waitingForInput}
+                          onClick={() => simulator.send({ type: 'button', buttonId: button.id })}
+                        >
+                          {button.title || 'Untitled button'}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <div ref={transcriptEndRef} />
+        </div>
+
+        {/* Called flow the conversation is in */}
+        {activeSubflow && (
+          <div className="px-4 py-2 border-t border-panel-border text-xs text-subflow-node-text bg-subflow-node-bg">
+            Inside sub-flow "{activeSubflow.name}"
+          </div>
+        )}
+
+        {/* Variables captured so far */}
+        {Object.keys(simulator.variables).length > 0 && (
+          <div className="px-4 py-2 border-t border-panel-border text-xs text-text-secondary space-y-0.5">
+            {Object.entries(simulator.variables).map(([name, value]) => (
+              <div key={name} className="font-mono truncate">
+                {name} = {JSON.stringify(value)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Composer */}
+        <form onSubmit={handleSubmit} className="flex gap-2 p-4 border-t border-panel-border">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={simulator.waitingForInput ? 'Type a reply...' : 'The bot is not waiting for a reply'}
+            disabled={!simulator.waitingForInput}
+            className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!simulator.waitingForInput || !draft.trim()}
+            className="bg-primary hover:bg-primary-hover text-primary-foreground"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { DiagnosticCode, FlowDiagnostic } from '@/lib/flow/analysis';
+
+interface ProblemsPanelProps {
+  diagnostics: FlowDiagnostic[];
+  /** WhatsApp channel limits (`analyzeWhatsAppLimits`); they only block the WhatsApp export */
+  channelDiagnostics: FlowDiagnostic[];
+  onSelectDiagnostic: (diagnostic: FlowDiagnostic) => void;
+}
+
+const codeLabels: Record<DiagnosticCode, string> = {
+  missing_start: 'Missing Start node',
+  unreachable: 'Unreachable',
+  dangling_branch: 'Unconnected branch',
+  dead_end: 'Dead end',
+  loop_without_input: 'Loop without input',
+  duplicate_label: 'Duplicate label',
+  invalid_variable: 'Invalid variable',
+  unknown_variable: 'Unknown variable',
+  missing_subflow: 'Missing sub-flow',
+  recursive_subflow: 'Recursive sub-flow',
+  missing_jump_target: 'Missing jump target',
+  channel_limit: 'Channel limit',
+};
+
+// One clickable problem
+const DiagnosticItem: React.FC<{ diagnostic: FlowDiagnostic; onSelect: () => void }> = ({ diagnostic, onSelect }) => {
+  const isError = diagnostic.severity === 'error';
+  const IconComponent = isError ? AlertCircle : AlertTriangle;
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onSelect}
+        className="w-full flex items-start gap-2 rounded-md px-2 py-2 text-left hover:bg-secondary transition-colors"
+      >
+        <IconComponent className={`w-4 h-4 mt-0.5 flex-shrink-0 ${isError ? 'text-red-600' : 'text-amber-600'}`} />
+        <div className="min-w-0">
+          <div className="text-sm text-text-primary">{diagnostic.message}</div>
+          <div className="text-xs text-text-muted mt-0.5">{codeLabels[diagnostic.code]}</div>
+        </div>
+      </button>
+    </li>
+  );
+};
+
+/**
+ * ProblemsPanel Component
+ *
+ * Lists every diagnostic reported by the flow analyzer.
+ * Features:
+ * - Errors (block saving) are listed before warnings
+ * - WhatsApp channel limits are listed separately; they only block the WhatsApp export
+ * - Clicking a problem selects its node and brings it into view (or opens
+ *   whatever else it points at, e.g. the variables registry)
+ */
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, channelDiagnostics, onSelectDiagnostic }) => {
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Panel Header */}
+      <div className="p-4 border-b border-panel-border">
+        <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          Problems
+        </h2>
+        <p className="text-sm text-text-secondary mt-1">
+          {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+        </p>
+      </div>
+
+      {/* Diagnostics */}
+      <div className="flex-1 p-2 overflow-y-auto">
+        {diagnostics.length === 0 && channelDiagnostics.length === 0 ? (
+          <div className="text-center py-8">
+            <CheckCircle2 className="w-8 h-8 text-message-node mx-auto mb-2" />
+            <p className="text-text-muted">No problems found</p>
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-1">
+              {diagnostics.map((diagnostic, index) => (
+                <DiagnosticItem
+                  key={`${diagnostic.code}-${diagnostic.nodeId}-${diagnostic.handleId}-${index}`}
+                  diagnostic={diagnostic}
+                  onSelect={() => onSelectDiagnostic(diagnostic)}
+                />
+              ))}
+            </ul>
+
+            {/* Channel limits */}
+            {channelDiagnostics.length > 0 && (
+              <div className="mt-4">
+                <h3 className="px-2 text-sm font-medium text-text-primary">WhatsApp export</h3>
+                <p className="px-2 text-xs text-text-muted mt-0.5">
+                  Messages WhatsApp would reject. They don't block saving, only the WhatsApp export.
+                </p>
+                <ul className="space-y-1 mt-1">
+                  {channelDiagnostics.map((diagnostic, index) => (
+                    <DiagnosticItem
+                      key={`${diagnostic.code}-${diagnostic.nodeId}-${diagnostic.handleId}-${index}`}
+                      diagnostic={diagnostic}
+                      onSelect={() => onSelectDiagnostic(diagnostic)}
+                    />
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
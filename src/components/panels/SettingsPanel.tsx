@@ -1,111 +1,267 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Node } from '@xyflow/react';
-import { Settings, X, MessageSquare, Type } from 'lucide-react';
+import { Settings, X, MessageSquare, Type, GitBranch, HelpCircle, MousePointerClick, Flag, Workflow, RefreshCw, CornerDownRight, ArrowRight, StickyNote, Check, Frame, Ungroup } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useFlowListQuery } from '@/hooks/use-flow-repository';
+import { useFlowEditor } from '@/hooks/use-flow-editor';
+import { QUESTION_INPUT_TYPES } from '@/lib/flow/input-validation';
+import { MEDIA_TYPES } from '@/lib/flow/media';
+import { NOTE_COLORS } from '@/lib/flow/notes';
+import { GROUP_COLORS } from '@/lib/flow/groups';
+import { getFlowExits } from '@/lib/flow/subflows';
+import { getKnownVariableNames } from '@/lib/flow/variables';
+import { StartNodeData } from '../nodes/StartNode';
 import { TextNodeData } from '../nodes/TextNode';
+import { ConditionNodeData } from '../nodes/ConditionNode';
+import { QuestionNodeData } from '../nodes/QuestionNode';
+import { ButtonsNodeData } from '../nodes/ButtonsNode';
+import { SubflowNodeData } from '../nodes/SubflowNode';
+import { JumpNodeData } from '../nodes/JumpNode';
+import { NoteNodeData } from '../nodes/NoteNode';
+import { noteColorStyles } from '../nodes/note-styles';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { groupColorStyles } from '../nodes/group-styles';
+import { ConditionRulesEditor } from './settings/ConditionRulesEditor';
+import { QuickRepliesEditor } from './settings/QuickRepliesEditor';
+import { StartTriggersEditor } from './settings/StartTriggersEditor';
+import { TemplateTextarea } from './settings/TemplateTextarea';
+import { VariableMappingsEditor } from './settings/VariableMappingsEditor';
+import { JumpTargetPicker } from './settings/JumpTargetPicker';
+import { TemplateText } from '../nodes/TemplateText';
+import { NoteMarkdown } from '../nodes/NoteMarkdown';
+
+type NodeData = Record<string, unknown>;
+
+// Select values are strings; a Message node without attachment gets a stand-in
+const NO_MEDIA = 'none';
 
 interface SettingsPanelProps {
   node: Node;
-  onUpdateNode: (nodeId: string, newData: Partial<TextNodeData>) => void;
+  onUpdateNode: (nodeId: string, newData: NodeData) => void;
   onClose: () => void;
+  /** Known variable names, for `{{variable}}` autocomplete */
+  variables: string[];
+  /** Flow being edited; Sub-flow nodes can't call it */
+  flowId: string;
+  /** Removes a frame, keeping its contents */
+  onUngroup: (groupId: string) => void;
 }
 
 /**
  * SettingsPanel Component
  * 
  * Provides editing interface for selected nodes.
- * Currently supports text nodes with plans for extensibility.
+ * Supports start, text, quick reply, question, condition, sub-flow and jump nodes, notes and frames with plans for extensibility.
  * 
  * Features:
  * - Real-time preview of changes
  * - Validation for required fields
+ * - Variable autocomplete and unknown-variable warnings in message text
  * - Extensible design for different node types
  */
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
   node, 
   onUpdateNode, 
-  onClose 
+  onClose,
+  variables,
+  flowId,
+  onUngroup,
 }) => {
-  const [localData, setLocalData] = useState<TextNodeData>(node.data as unknown as TextNodeData);
+  const flowsQuery = useFlowListQuery();
+  const { focusNode, toggleGroup } = useFlowEditor();
+  const [localData, setLocalData] = useState<NodeData>(node.data);
   const [hasChanges, setHasChanges] = useState(false);
+  const pendingData = useRef<{ nodeId: string; data: NodeData } | null>(null);
+  const saveTimeout = useRef<number>();
 
-  // Sync local data when node changes
-  useEffect(() => {
-    setLocalData(node.data as unknown as TextNodeData);
+  // Push pending edits to the flow right away
+  const flushChanges = useRef(() => {});
+  flushChanges.current = () => {
+    window.clearTimeout(saveTimeout.current);
+    if (pendingData.current) {
+      onUpdateNode(pendingData.current.nodeId, pendingData.current.data);
+      pendingData.current = null;
+    }
     setHasChanges(false);
-  }, [node]);
+  };
+
+  // Don't lose edits when switching to another node or closing the panel
+  useEffect(() => () => flushChanges.current(), [node.id]);
 
-  // Handle input changes and track modifications
-  const handleDataChange = (field: string, value: string) => {
-    const newData = { ...localData, [field]: value };
+  // Sync local data when the node changes outside this panel (inline edit, undo)
+  useEffect(() => {
+    if (!pendingData.current) {
+      setLocalData(node.data);
+    }
+  }, [node.data]);
+
+  // Handle input changes and track modifications.
+  // Structural edits (adding or removing branches) apply immediately so handles update.
+  const handleDataChange = (field: string, value: unknown, immediate = false) => {
+    updateData({ [field]: value }, immediate);
+  };
+
+  // Change several fields as one edit
+  const updateData = (changes: NodeData, immediate = false) => {
+    const newData = { ...localData, ...changes };
     setLocalData(newData);
     setHasChanges(true);
-    
-    // Auto-save changes with slight delay for better UX
-    const timeoutId = setTimeout(() => {
-      onUpdateNode(node.id, newData);
-      setHasChanges(false);
-    }, 500);
-
-    return () => clearTimeout(timeoutId);
+    pendingData.current = { nodeId: node.id, data: newData };
+
+    // Auto-save once typing pauses for better UX
+    window.clearTimeout(saveTimeout.current);
+    if (immediate) {
+      flushChanges.current();
+    } else {
+      saveTimeout.current = window.setTimeout(() => flushChanges.current(), 500);
+    }
   };
 
   // Save changes immediately
   const saveChanges = () => {
-    onUpdateNode(node.id, localData);
-    setHasChanges(false);
+    flushChanges.current();
   };
 
+  // Node label, shared by every node type
+  const renderLabelField = () => (
+    <div className="space-y-2">
+      <Label htmlFor="nodeLabel" className="text-sm font-medium text-text-primary">
+        Node Label
+      </Label>
+      <Input
+        id="nodeLabel"
+        value={(localData.label as string) || ''}
+        onChange={(e) => handleDataChange('label', e.target.value)}
+        placeholder="Enter node label..."
+        className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+      />
+      <p className="text-xs text-text-muted">
+        This label appears in the node header
+      </p>
+    </div>
+  );
+
   // Render different settings based on node type
   const renderNodeSettings = () => {
     switch (node.type) {
-      case 'textNode':
+      case 'startNode': {
+        const startData = localData as unknown as StartNodeData;
         return (
           <div className="space-y-4">
-            {/* Node Label */}
-            <div className="space-y-2">
-              <Label htmlFor="nodeLabel" className="text-sm font-medium text-text-primary">
-                Node Label
-              </Label>
-              <Input
-                id="nodeLabel"
-                value={localData.label || ''}
-                onChange={(e) => handleDataChange('label', e.target.value)}
-                placeholder="Enter node label..."
-                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
-              />
-              <p className="text-xs text-text-muted">
-                This label appears in the node header
-              </p>
-            </div>
+            {renderLabelField()}
+
+            <StartTriggersEditor
+              triggers={startData.triggers || []}
+              onChange={(triggers, structural) => handleDataChange('triggers', triggers, structural)}
+            />
+          </div>
+        );
+      }
+
+      case 'textNode': {
+        const textData = localData as unknown as TextNodeData;
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
 
             {/* Message Text */}
             <div className="space-y-2">
               <Label htmlFor="messageText" className="text-sm font-medium text-text-primary">
                 Message Text
               </Label>
-              <Textarea
+              <TemplateTextarea
                 id="messageText"
-                value={localData.text || ''}
-                onChange={(e) => handleDataChange('text', e.target.value)}
-                placeholder="Enter your message text..."
+                value={textData.text || ''}
+                onChange={(text) => handleDataChange('text', text)}
+                variables={variables}
+                placeholder="Enter your message text... Type {{ to insert a variable"
                 rows={4}
                 className="bg-node-bg border-input focus:border-input-focus focus:ring-ring resize-none"
               />
               <p className="text-xs text-text-muted">
-                {(localData.text?.length || 0)} characters
+                {(textData.text?.length || 0)} characters
               </p>
             </div>
 
+            {/* Attachment */}
+            <div className="space-y-2">
+              <Label htmlFor="mediaType" className="text-sm font-medium text-text-primary">
+                Attachment
+              </Label>
+              <Select
+                value={textData.media?.type ?? NO_MEDIA}
+                onValueChange={(value) =>
+                  handleDataChange(
+                    'media',
+                    value === NO_MEDIA ? undefined : { type: value, url: textData.media?.url ?? '' },
+                    true
+                  )
+                }
+              >
+                <SelectTrigger id="mediaType" className="bg-node-bg border-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MEDIA}>None</SelectItem>
+                  {MEDIA_TYPES.map((mediaType) => (
+                    <SelectItem key={mediaType.id} value={mediaType.id}>
+                      {mediaType.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {textData.media && (
+                <Input
+                  value={textData.media.url}
+                  onChange={(e) => handleDataChange('media', { ...textData.media, url: e.target.value })}
+                  placeholder="https://example.com/brochure.pdf"
+                  aria-label="Attachment URL"
+                  className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+                />
+              )}
+              <p className="text-xs text-text-muted">
+                {!textData.media
+                  ? 'Optional file sent with the message'
+                  : textData.media.type === 'audio'
+                    ? 'Audio is sent before the message text'
+                    : 'The message text is sent as the caption'}
+              </p>
+            </div>
+
+            {/* Terminal Marker */}
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="terminal" className="text-sm font-medium text-text-primary">
+                  Ends the conversation
+                </Label>
+                <p className="text-xs text-text-muted">
+                  Leaving this message unconnected is intended
+                </p>
+              </div>
+              <Switch
+                id="terminal"
+                checked={textData.terminal === true}
+                onCheckedChange={(checked) => handleDataChange('terminal', checked, true)}
+              />
+            </div>
+
             {/* Message Preview */}
             <div className="space-y-2">
               <Label className="text-sm font-medium text-text-primary">Preview</Label>
               <div className="p-3 bg-message-node-bg border border-message-node-border rounded-lg">
                 <div className="text-sm text-message-node-text">
-                  {localData.text || (
+                  {textData.text ? <TemplateText text={textData.text} /> : (
                     <span className="text-text-muted italic">No message text</span>
                   )}
                 </div>
@@ -113,6 +269,397 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
           </div>
         );
+      }
+
+      case 'conditionNode': {
+        const conditionData = localData as unknown as ConditionNodeData;
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
+
+            <ConditionRulesEditor
+              rules={conditionData.rules || []}
+              onChange={(rules, structural) => handleDataChange('rules', rules, structural)}
+            />
+          </div>
+        );
+      }
+
+      case 'buttonsNode': {
+        const buttonsData = localData as unknown as ButtonsNodeData;
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
+
+            {/* Message Text */}
+            <div className="space-y-2">
+              <Label htmlFor="buttonsText" className="text-sm font-medium text-text-primary">
+                Message Text
+              </Label>
+              <TemplateTextarea
+                id="buttonsText"
+                value={buttonsData.text || ''}
+                onChange={(text) => handleDataChange('text', text)}
+                variables={variables}
+                placeholder="Enter the message shown above the buttons..."
+                rows={3}
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring resize-none"
+              />
+            </div>
+
+            <QuickRepliesEditor
+              buttons={buttonsData.buttons || []}
+              onChange={(buttons, structural) => handleDataChange('buttons', buttons, structural)}
+            />
+          </div>
+        );
+      }
+
+      case 'questionNode': {
+        const questionData = localData as unknown as QuestionNodeData;
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
+
+            {/* Question Text */}
+            <div className="space-y-2">
+              <Label htmlFor="questionText" className="text-sm font-medium text-text-primary">
+                Question
+              </Label>
+              <TemplateTextarea
+                id="questionText"
+                value={questionData.text || ''}
+                onChange={(text) => handleDataChange('text', text)}
+                variables={variables}
+                placeholder="What would you like to ask?"
+                rows={3}
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring resize-none"
+              />
+            </div>
+
+            {/* Expected Input */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-text-primary">Expected input</Label>
+              <Select
+                value={questionData.inputType}
+                onValueChange={(value) => handleDataChange('inputType', value, true)}
+              >
+                <SelectTrigger className="bg-node-bg border-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_INPUT_TYPES.map((inputType) => (
+                    <SelectItem key={inputType.id} value={inputType.id}>
+                      {inputType.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {questionData.inputType === 'regex' && (
+                <Input
+                  value={questionData.pattern || ''}
+                  onChange={(e) => handleDataChange('pattern', e.target.value)}
+                  placeholder="e.g. [A-Z]{2}\d{4}"
+                  aria-label="Answer pattern (must match the whole answer)"
+                  title="The whole answer must match the pattern"
+                  className="font-mono text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+                />
+              )}
+            </div>
+
+            {/* Target Variable */}
+            <div className="space-y-2">
+              <Label htmlFor="questionVariable" className="text-sm font-medium text-text-primary">
+                Save answer to variable
+              </Label>
+              <Input
+                id="questionVariable"
+                value={questionData.variable || ''}
+                onChange={(e) => handleDataChange('variable', e.target.value)}
+                placeholder="e.g. user.email"
+                className="font-mono text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+              />
+            </div>
+
+            {/* Retry Behaviour */}
+            <div className="space-y-2">
+              <Label htmlFor="retryMessage" className="text-sm font-medium text-text-primary">
+                Retry message
+              </Label>
+              <TemplateTextarea
+                id="retryMessage"
+                value={questionData.retryMessage || ''}
+                onChange={(text) => handleDataChange('retryMessage', text)}
+                variables={variables}
+                placeholder="Sent when the answer is not valid"
+                rows={2}
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring resize-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxRetries" className="text-sm font-medium text-text-primary">
+                Max retries
+              </Label>
+              <Input
+                id="maxRetries"
+                type="number"
+                min={0}
+                max={10}
+                value={questionData.maxRetries ?? 0}
+                onChange={(e) => handleDataChange('maxRetries', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+              />
+              <p className="text-xs text-text-muted">
+                After this many invalid answers the flow continues from "Invalid after retries"
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case 'subflowNode': {
+        const subflowData = localData as unknown as SubflowNodeData;
+        const flows = (flowsQuery.data ?? []).filter((flow) => flow.id !== flowId);
+        const calledFlow = flows.find((flow) => flow.id === subflowData.flowId);
+        const calledVariables = calledFlow ? getKnownVariableNames(calledFlow.variables, calledFlow.nodes) : [];
+        const currentExits = calledFlow ? getFlowExits(calledFlow.nodes) : null;
+        const exitsChanged = currentExits !== null && JSON.stringify(currentExits) !== JSON.stringify(subflowData.exits ?? []);
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
+
+            {/* Called Flow */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-text-primary">Flow to run</Label>
+              <Select
+                value={calledFlow ? calledFlow.id : ''}
+                onValueChange={(value) => {
+                  const flow = flows.find((entry) => entry.id === value);
+                  if (!flow) {
+                    return;
+                  }
+                  // Name the node after the flow until it is given its own label
+                  const label = !subflowData.label || subflowData.label === 'Sub-flow' ? flow.name : subflowData.label;
+                  updateData({ flowId: flow.id, exits: getFlowExits(flow.nodes), label }, true);
+                }}
+              >
+                <SelectTrigger className="bg-node-bg border-input">
+                  <SelectValue placeholder={subflowData.flowId ? 'Missing flow' : 'Choose a flow...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {flows.map((flow) => (
+                    <SelectItem key={flow.id} value={flow.id}>
+                      {flow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-text-muted">
+                Uses the saved version of the flow. Nodes marked as the end of the conversation in it become exits of this node.
+              </p>
+            </div>
+
+            {/* Exits out of date */}
+            {exitsChanged && (
+              <div className="p-3 rounded-lg border border-subflow-node-border bg-subflow-node-bg space-y-2">
+                <p className="text-xs text-subflow-node-text">
+                  The exits of "{calledFlow.name}" have changed since this node was set up.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDataChange('exits', currentExits, true)}
+                  className="w-full bg-node-bg hover:bg-secondary border-node-border"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Update exits
+                </Button>
+              </div>
+            )}
+
+            <VariableMappingsEditor
+              id="subflowInputs"
+              label="Inputs"
+              description="Copied into the called flow when it starts."
+              mappings={subflowData.inputs || []}
+              fromVariables={variables}
+              toVariables={calledVariables}
+              fromPlaceholder="this flow"
+              toPlaceholder="called flow"
+              onChange={(inputs, structural) => handleDataChange('inputs', inputs, structural)}
+            />
+
+            <VariableMappingsEditor
+              id="subflowOutputs"
+              label="Outputs"
+              description="Copied back into this flow when the called flow ends."
+              mappings={subflowData.outputs || []}
+              fromVariables={calledVariables}
+              toVariables={variables}
+              fromPlaceholder="called flow"
+              toPlaceholder="this flow"
+              onChange={(outputs, structural) => handleDataChange('outputs', outputs, structural)}
+            />
+          </div>
+        );
+      }
+
+      case 'jumpNode': {
+        const jumpData = localData as unknown as JumpNodeData;
+        return (
+          <div className="space-y-4">
+            {renderLabelField()}
+
+            <JumpTargetPicker
+              nodeId={node.id}
+              targetId={jumpData.targetId || ''}
+              onChange={(targetId) => handleDataChange('targetId', targetId, true)}
+            />
+
+            {jumpData.targetId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => focusNode(jumpData.targetId)}
+                className="w-full bg-node-bg hover:bg-secondary border-node-border"
+              >
+                <ArrowRight className="w-4 h-4 mr-2" />
+                Go to target
+              </Button>
+            )}
+          </div>
+        );
+      }
+
+      case 'noteNode': {
+        const noteData = localData as unknown as NoteNodeData;
+        const noteStyles = noteColorStyles[noteData.color] ?? noteColorStyles.yellow;
+        return (
+          <div className="space-y-4">
+            {/* Note Content */}
+            <div className="space-y-2">
+              <Label htmlFor="noteText" className="text-sm font-medium text-text-primary">
+                Note
+              </Label>
+              <Textarea
+                id="noteText"
+                value={noteData.text || ''}
+                onChange={(e) => handleDataChange('text', e.target.value)}
+                placeholder="Write a note..."
+                rows={6}
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring font-mono text-sm"
+              />
+              <p className="text-xs text-text-muted">
+                Supports Markdown: # headings, **bold**, *italic*, `code`, [links](https://...), lists and &gt; quotes
+              </p>
+            </div>
+
+            {/* Note Color */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-text-primary">Color</Label>
+              <div className="flex gap-2">
+                {NOTE_COLORS.map((color) => (
+                  <button
+                    key={color.id}
+                    type="button"
+                    title={color.label}
+                    aria-label={color.label}
+                    aria-pressed={noteData.color === color.id}
+                    onClick={() => handleDataChange('color', color.id, true)}
+                    className={`w-7 h-7 rounded-full border-2 flex items-center justify-center ${noteColorStyles[color.id].swatch}`}
+                  >
+                    {noteData.color === color.id && <Check className="w-4 h-4 text-text-primary" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Note Preview */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-text-primary">Preview</Label>
+              <div className={`p-3 border rounded-md ${noteStyles.card}`}>
+                {noteData.text ? <NoteMarkdown text={noteData.text} /> : (
+                  <span className="text-sm text-text-muted italic">Empty note</span>
+                )}
+              </div>
+            </div>
+
+            <p className="text-xs text-text-muted">
+              Notes are only shown in the builder. They are not part of the conversation and are ignored by validation and the preview.
+            </p>
+          </div>
+        );
+      }
+
+      case 'groupNode': {
+        const groupData = localData as unknown as GroupNodeData;
+        return (
+          <div className="space-y-4">
+            {/* Frame Title */}
+            <div className="space-y-2">
+              <Label htmlFor="groupLabel" className="text-sm font-medium text-text-primary">
+                Title
+              </Label>
+              <Input
+                id="groupLabel"
+                value={groupData.label || ''}
+                onChange={(e) => handleDataChange('label', e.target.value)}
+                placeholder="e.g. Onboarding"
+                className="bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+              />
+            </div>
+
+            {/* Frame Color */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-text-primary">Color</Label>
+              <div className="flex gap-2">
+                {GROUP_COLORS.map((color) => (
+                  <button
+                    key={color.id}
+                    type="button"
+                    title={color.label}
+                    aria-label={color.label}
+                    aria-pressed={groupData.color === color.id}
+                    onClick={() => handleDataChange('color', color.id, true)}
+                    className={`w-7 h-7 rounded-full border-2 flex items-center justify-center ${groupColorStyles[color.id].swatch}`}
+                  >
+                    {groupData.color === color.id && <Check className="w-4 h-4 text-text-primary" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Collapsed State */}
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="collapsed" className="text-sm font-medium text-text-primary">
+                  Collapsed
+                </Label>
+                <p className="text-xs text-text-muted">
+                  Show the frame as a single box; its connections end at the box
+                </p>
+              </div>
+              <Switch
+                id="collapsed"
+                checked={groupData.collapsed === true}
+                onCheckedChange={() => {
+                  flushChanges.current();
+                  toggleGroup(node.id);
+                }}
+              />
+            </div>
+
+            <Button variant="outline" size="sm" className="w-full" onClick={() => onUngroup(node.id)}>
+              <Ungroup className="w-4 h-4 mr-2" />
+              Ungroup
+            </Button>
+
+            <p className="text-xs text-text-muted">
+              Drag nodes onto the frame to add them and out of it to remove them. Deleting the frame deletes its contents; Ungroup (Ctrl+Shift+G) keeps them.
+            </p>
+          </div>
+        );
+      }
 
       // Future node types can be added here
       default:
@@ -127,15 +674,73 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   const getNodeTypeInfo = () => {
     switch (node.type) {
+      case 'startNode':
+        return {
+          icon: Flag,
+          iconClassName: 'text-start-node',
+          label: 'Start',
+          description: 'Where conversations enter the flow'
+        };
       case 'textNode':
         return {
           icon: MessageSquare,
+          iconClassName: 'text-message-node',
           label: 'Text Message',
           description: 'Configure your text message content'
         };
+      case 'buttonsNode':
+        return {
+          icon: MousePointerClick,
+          iconClassName: 'text-message-node',
+          label: 'Quick Replies',
+          description: 'Configure the message and its reply buttons'
+        };
+      case 'questionNode':
+        return {
+          icon: HelpCircle,
+          iconClassName: 'text-question-node',
+          label: 'Question',
+          description: 'Ask a question and capture the answer'
+        };
+      case 'conditionNode':
+        return {
+          icon: GitBranch,
+          iconClassName: 'text-condition-node',
+          label: 'Condition',
+          description: 'Branch the flow based on variables'
+        };
+      case 'subflowNode':
+        return {
+          icon: Workflow,
+          iconClassName: 'text-subflow-node',
+          label: 'Sub-flow',
+          description: 'Run another flow and continue from its exit'
+        };
+      case 'noteNode':
+        return {
+          icon: StickyNote,
+          iconClassName: 'text-note-node',
+          label: 'Note',
+          description: 'Documents the flow on the canvas'
+        };
+      case 'groupNode':
+        return {
+          icon: Frame,
+          iconClassName: 'text-group-node',
+          label: 'Frame',
+          description: 'Groups a section of the flow'
+        };
+      case 'jumpNode':
+        return {
+          icon: CornerDownRight,
+          iconClassName: 'text-jump-node',
+          label: 'Jump to',
+          description: 'Continue at another node of the flow'
+        };
       default:
         return {
           icon: Type,
+          iconClassName: 'text-message-node',
           label: 'Node',
           description: 'Configure node settings'
         };
@@ -151,7 +756,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
       <div className="p-4 border-b border-panel-border">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <IconComponent className="w-5 h-5 text-message-node" />
+            <IconComponent className={`w-5 h-5 ${nodeTypeInfo.iconClassName}`} />
             <div>
               <h2 className="text-lg font-semibold text-text-primary">
                 {nodeTypeInfo.label}
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Braces, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { FlowVariable } from '@/lib/flow/document';
+import {
+  VARIABLE_SCOPES,
+  VARIABLE_TYPE_IDS,
+  VariableScope,
+  VariableType,
+  getVariableNameError,
+} from '@/lib/flow/variables';
+
+interface VariablesPanelProps {
+  variables: FlowVariable[];
+  /** `coalesceKey` is set for field edits, so typing in a field is one undo step */
+  onChange: (variables: FlowVariable[], coalesceKey?: string) => void;
+}
+
+/**
+ * VariablesPanel Component
+ *
+ * Flow-level variables registry.
+ * Features:
+ * - Name, type, default value and scope per variable
+ * - Invalid or duplicate names are flagged inline (and block saving)
+ * - Registered names are suggested when typing `{{` in message text
+ */
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({ variables, onChange }) => {
+  const updateVariable = (index: number, changes: Partial<FlowVariable>) => {
+    onChange(
+      variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)),
+      `variable:${index}:${Object.keys(changes).join(',')}`
+    );
+  };
+
+  const addVariable = () => {
+    let number = variables.length + 1;
+    while (variables.some((variable) => variable.name === `variable_${number}`)) {
+      number++;
+    }
+    onChange([...variables, { name: `variable_${number}`, type: 'string', scope: 'session' }]);
+  };
+
+  const removeVariable = (index: number) => {
+    onChange(variables.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Panel Header */}
+      <div className="p-4 border-b border-panel-border">
+        <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <Braces className="w-5 h-5" />
+          Variables
+        </h2>
+        <p className="text-sm text-text-secondary mt-1">
+          Use them in messages as {'{{name}}'} or {'{{name | default:"text"}}'}
+        </p>
+      </div>
+
+      {/* Registry */}
+      <div className="flex-1 p-4 overflow-y-auto space-y-2">
+        {variables.map((variable, index) => {
+          const nameError = getVariableNameError(variable.name, variables);
+          return (
+            <div key={index} className="p-3 border border-panel-border rounded-lg space-y-2">
+              <div className="flex items-center gap-1">
+                <Input
+                  value={variable.name}
+                  onChange={(e) => updateVariable(index, { name: e.target.value })}
+                  placeholder="Name, e.g. user.name"
+                  aria-invalid={nameError !== null}
+                  className={`h-8 font-mono text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring ${
+                    nameError ? 'border-red-500' : ''
+                  }`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 flex-shrink-0 text-text-secondary hover:text-red-600"
+                  onClick={() => removeVariable(index)}
+                  title="Remove variable"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              {nameError && <p className="text-xs text-red-600">{nameError}</p>}
+
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={variable.type}
+                  onValueChange={(value) => updateVariable(index, { type: value as VariableType })}
+                >
+                  <SelectTrigger className="h-8 text-sm bg-node-bg border-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VARIABLE_TYPE_IDS.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={variable.scope}
+                  onValueChange={(value) => updateVariable(index, { scope: value as VariableScope })}
+                >
+                  <SelectTrigger className="h-8 text-sm bg-node-bg border-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VARIABLE_SCOPES.map((scope) => (
+                      <SelectItem key={scope.id} value={scope.id} title={scope.description}>
+                        {scope.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Input
+                value={variable.defaultValue ?? ''}
+                onChange={(e) => updateVariable(index, { defaultValue: e.target.value || undefined })}
+                placeholder="Default value (optional)"
+                className="h-8 text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+              />
+            </div>
+          );
+        })}
+
+        {variables.length === 0 && (
+          <p className="text-sm text-text-muted text-center py-4">No variables yet</p>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addVariable}
+          className="w-full bg-node-bg hover:bg-secondary border-node-border"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add variable
+        </Button>
+        <p className="text-xs text-text-muted">
+          Question nodes can also capture answers into variables that are not listed here.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { MessageSquare, GitBranch, HelpCircle, MousePointerClick, Workflow, CornerDownRight, StickyNote, Frame } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+export interface NodeCatalogEntry {
+  /** React Flow node type */
+  id: string;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  /** Key into `nodeColorStyles` */
+  color: string;
+  category: string;
+}
+
+// Literal class names per node color so Tailwind can pick them up
+export const nodeColorStyles: Record<string, { icon: string; iconBox: string; card: string }> = {
+  'message-node': {
+    icon: 'text-message-node',
+    iconBox: 'bg-message-node-bg border-message-node-border group-hover:bg-message-node group-hover:border-message-node',
+    card: 'hover:border-message-node-border',
+  },
+  'condition-node': {
+    icon: 'text-condition-node',
+    iconBox: 'bg-condition-node-bg border-condition-node-border group-hover:bg-condition-node group-hover:border-condition-node',
+    card: 'hover:border-condition-node-border',
+  },
+  'question-node': {
+    icon: 'text-question-node',
+    iconBox: 'bg-question-node-bg border-question-node-border group-hover:bg-question-node group-hover:border-question-node',
+    card: 'hover:border-question-node-border',
+  },
+  'subflow-node': {
+    icon: 'text-subflow-node',
+    iconBox: 'bg-subflow-node-bg border-subflow-node-border group-hover:bg-subflow-node group-hover:border-subflow-node',
+    card: 'hover:border-subflow-node-border',
+  },
+  'jump-node': {
+    icon: 'text-jump-node',
+    iconBox: 'bg-jump-node-bg border-jump-node-border group-hover:bg-jump-node group-hover:border-jump-node',
+    card: 'hover:border-jump-node-border',
+  },
+  'note-node': {
+    icon: 'text-note-node',
+    iconBox: 'bg-note-node-bg border-note-node-border group-hover:bg-note-node group-hover:border-note-node',
+    card: 'hover:border-note-node-border',
+  },
+  'group-node': {
+    icon: 'text-group-node',
+    iconBox: 'bg-group-node-bg border-group-node-border group-hover:bg-group-node group-hover:border-group-node',
+    card: 'hover:border-group-node-border',
+  },
+};
+
+// Node types that can be added to a flow - easily extensible
+export const nodeCatalog: NodeCatalogEntry[] = [
+  {
+    id: 'textNode',
+    label: 'Message',
+    description: 'Send a text message to users',
+    icon: MessageSquare,
+    color: 'message-node',
+    category: 'Messages'
+  },
+  // Future node types can be added here:
+  // {
+  //   id: 'imageNode', 
+  //   label: 'Image',
+  //   description: 'Send an image to users',
+  //   icon: Image,
+  //   color: 'image-node',
+  //   category: 'Media'
+  // },
+  {
+    id: 'buttonsNode',
+    label: 'Quick Replies',
+    description: 'Message with reply buttons',
+    icon: MousePointerClick,
+    color: 'message-node',
+    category: 'Messages'
+  },
+  {
+    id: 'questionNode',
+    label: 'Question',
+    description: 'Ask a question and save the answer',
+    icon: HelpCircle,
+    color: 'question-node',
+    category: 'Input'
+  },
+  {
+    id: 'conditionNode',
+    label: 'Condition',
+    description: 'Branch flow based on conditions',
+    icon: GitBranch,
+    color: 'condition-node',
+    category: 'Logic'
+  },
+  {
+    id: 'subflowNode',
+    label: 'Sub-flow',
+    description: 'Run another flow, then continue',
+    icon: Workflow,
+    color: 'subflow-node',
+    category: 'Logic'
+  },
+  {
+    id: 'jumpNode',
+    label: 'Jump to',
+    description: 'Continue at another node',
+    icon: CornerDownRight,
+    color: 'jump-node',
+    category: 'Logic'
+  },
+  {
+    id: 'noteNode',
+    label: 'Note',
+    description: 'Document the flow on the canvas',
+    icon: StickyNote,
+    color: 'note-node',
+    category: 'Annotations'
+  },
+  {
+    id: 'groupNode',
+    label: 'Frame',
+    description: 'Group a section of the flow',
+    icon: Frame,
+    color: 'group-node',
+    category: 'Annotations'
+  },
+];
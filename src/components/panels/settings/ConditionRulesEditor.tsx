@@ -0,0 +1,139 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CONDITION_OPERATORS,
+  ConditionOperator,
+  ConditionRule,
+  operatorNeedsValue,
+} from '@/lib/flow/conditions';
+import { createId } from '@/lib/flow/ids';
+
+interface ConditionRulesEditorProps {
+  rules: ConditionRule[];
+  /** `structural` is true for add/remove/reorder, which should apply right away */
+  onChange: (rules: ConditionRule[], structural: boolean) => void;
+}
+
+/**
+ * ConditionRulesEditor Component
+ *
+ * Ordered list of condition rules. Rules are evaluated top to bottom and
+ * each one owns a source handle on the node; the "Else" branch is implicit.
+ */
+export const ConditionRulesEditor: React.FC<ConditionRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (ruleId: string, changes: Partial<ConditionRule>) => {
+    onChange(rules.map((rule) => (rule.id === ruleId ? { ...rule, ...changes } : rule)), false);
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const reordered = [...rules];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    onChange(reordered, true);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: createId('rule'), variable: '', operator: 'equals', value: '' }], true);
+  };
+
+  const removeRule = (ruleId: string) => {
+    onChange(rules.filter((rule) => rule.id !== ruleId), true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-text-primary">Rules</Label>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="p-3 border border-panel-border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-text-secondary">Branch {index + 1}</span>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === 0}
+                onClick={() => moveRule(index, -1)}
+                title="Move up"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === rules.length - 1}
+                onClick={() => moveRule(index, 1)}
+                title="Move down"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-text-secondary hover:text-red-600"
+                onClick={() => removeRule(rule.id)}
+                title="Remove rule"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          <Input
+            value={rule.variable}
+            onChange={(e) => updateRule(rule.id, { variable: e.target.value })}
+            placeholder="Variable, e.g. user.age"
+            className="h-8 text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+          <Select
+            value={rule.operator}
+            onValueChange={(value) => updateRule(rule.id, { operator: value as ConditionOperator })}
+          >
+            <SelectTrigger className="h-8 text-sm bg-node-bg border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONDITION_OPERATORS.map((operator) => (
+                <SelectItem key={operator.id} value={operator.id}>
+                  {operator.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {operatorNeedsValue(rule.operator) && (
+            <Input
+              value={rule.value}
+              onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+              placeholder="Value"
+              className="h-8 text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+            />
+          )}
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addRule}
+        className="w-full bg-node-bg hover:bg-secondary border-node-border"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add rule
+      </Button>
+      <p className="text-xs text-text-muted">
+        Rules are checked top to bottom. When none match, the flow continues from the Else branch.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useNodes } from '@xyflow/react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { isAnnotationNode } from '@/lib/flow/annotations';
+import { isStartNode } from '@/lib/flow/start';
+
+interface JumpTargetPickerProps {
+  /** The Jump node being edited; it can't target itself */
+  nodeId: string;
+  targetId: string;
+  onChange: (targetId: string) => void;
+}
+
+const getNodeLabel = (node: { id: string; data: Record<string, unknown> }) =>
+  (node.data.label as string) || node.id;
+
+/**
+ * JumpTargetPicker Component
+ *
+ * Searchable list of the flow's nodes (by label or id) for choosing where a
+ * Jump node continues. The Start node, notes, frames and the Jump node
+ * itself are left out.
+ */
+export const JumpTargetPicker: React.FC<JumpTargetPickerProps> = ({ nodeId, targetId, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const nodes = useNodes();
+  const candidates = nodes.filter((node) => node.id !== nodeId && !isStartNode(node) && !isAnnotationNode(node));
+  const target = nodes.find((node) => node.id === targetId);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-text-primary">Jump to</Label>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal bg-node-bg border-input"
+          >
+            <span className="truncate">
+              {target ? getNodeLabel(target) : targetId ? 'Missing node' : 'Choose a node...'}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search by label or ID..." />
+            <CommandList>
+              <CommandEmpty>No matching node.</CommandEmpty>
+              <CommandGroup>
+                {candidates.map((node) => (
+                  <CommandItem
+                    key={node.id}
+                    value={`${getNodeLabel(node)} ${node.id}`}
+                    onSelect={() => {
+                      onChange(node.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={`w-4 h-4 mr-2 ${node.id === targetId ? 'opacity-100' : 'opacity-0'}`} />
+                    <div className="min-w-0">
+                      <div className="truncate">{getNodeLabel(node)}</div>
+                      <div className="text-xs text-text-muted font-mono truncate">{node.id}</div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <p className="text-xs text-text-muted">
+        The conversation continues at this node. It is marked on the canvas so you can find your way back.
+      </p>
+    </div>
+  );
+};
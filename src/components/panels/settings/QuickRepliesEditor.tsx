@@ -0,0 +1,114 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MAX_QUICK_REPLIES, QuickReplyButton } from '@/lib/flow/quick-replies';
+import { createId } from '@/lib/flow/ids';
+
+interface QuickRepliesEditorProps {
+  buttons: QuickReplyButton[];
+  /** `structural` is true for add/remove/reorder, which should apply right away */
+  onChange: (buttons: QuickReplyButton[], structural: boolean) => void;
+}
+
+/**
+ * QuickRepliesEditor Component
+ *
+ * Editable, ordered list of reply buttons. Reordering only moves buttons;
+ * their ids (and therefore the attached edges) are kept.
+ */
+export const QuickRepliesEditor: React.FC<QuickRepliesEditorProps> = ({ buttons, onChange }) => {
+  const updateButton = (buttonId: string, changes: Partial<QuickReplyButton>) => {
+    onChange(buttons.map((button) => (button.id === buttonId ? { ...button, ...changes } : button)), false);
+  };
+
+  const moveButton = (index: number, direction: -1 | 1) => {
+    const reordered = [...buttons];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    onChange(reordered, true);
+  };
+
+  const addButton = () => {
+    const number = buttons.length + 1;
+    onChange([...buttons, { id: createId('button'), title: `Option ${number}`, payload: `option_${number}` }], true);
+  };
+
+  const removeButton = (buttonId: string) => {
+    onChange(buttons.filter((button) => button.id !== buttonId), true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-text-primary">
+        Buttons ({buttons.length}/{MAX_QUICK_REPLIES})
+      </Label>
+
+      {buttons.map((button, index) => (
+        <div key={button.id} className="p-3 border border-panel-border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-text-secondary">Button {index + 1}</span>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === 0}
+                onClick={() => moveButton(index, -1)}
+                title="Move up"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === buttons.length - 1}
+                onClick={() => moveButton(index, 1)}
+                title="Move down"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-text-secondary hover:text-red-600"
+                onClick={() => removeButton(button.id)}
+                title="Remove button"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          <Input
+            value={button.title}
+            onChange={(e) => updateButton(button.id, { title: e.target.value })}
+            placeholder="Button title"
+            className="h-8 text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+          <Input
+            value={button.payload}
+            onChange={(e) => updateButton(button.id, { payload: e.target.value })}
+            placeholder="Payload (optional)"
+            className="h-8 font-mono text-xs bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addButton}
+        disabled={buttons.length >= MAX_QUICK_REPLIES}
+        className="w-full bg-node-bg hover:bg-secondary border-node-border"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add button
+      </Button>
+      <p className="text-xs text-text-muted">
+        Each button gets its own connection on the right edge of the node.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { START_TRIGGER_TYPES, StartTrigger, StartTriggerType } from '@/lib/flow/start';
+import { createId } from '@/lib/flow/ids';
+
+interface StartTriggersEditorProps {
+  triggers: StartTrigger[];
+  /** `structural` is true for add/remove/reorder, which should apply right away */
+  onChange: (triggers: StartTrigger[], structural: boolean) => void;
+}
+
+/**
+ * StartTriggersEditor Component
+ *
+ * Ordered list of Start node triggers. The first matching trigger picks the
+ * branch a conversation starts on; each one owns a source handle on the node.
+ */
+export const StartTriggersEditor: React.FC<StartTriggersEditorProps> = ({ triggers, onChange }) => {
+  const updateTrigger = (triggerId: string, changes: Partial<StartTrigger>) => {
+    onChange(triggers.map((trigger) => (trigger.id === triggerId ? { ...trigger, ...changes } : trigger)), false);
+  };
+
+  const moveTrigger = (index: number, direction: -1 | 1) => {
+    const reordered = [...triggers];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    onChange(reordered, true);
+  };
+
+  const addTrigger = () => {
+    onChange([...triggers, { id: createId('trigger'), type: 'keyword', value: '' }], true);
+  };
+
+  const removeTrigger = (triggerId: string) => {
+    onChange(triggers.filter((trigger) => trigger.id !== triggerId), true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-text-primary">Triggers</Label>
+
+      {triggers.map((trigger, index) => (
+        <div key={trigger.id} className="p-3 border border-panel-border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-text-secondary">Trigger {index + 1}</span>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === 0}
+                onClick={() => moveTrigger(index, -1)}
+                title="Move up"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === triggers.length - 1}
+                onClick={() => moveTrigger(index, 1)}
+                title="Move down"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-text-secondary hover:text-red-600"
+                onClick={() => removeTrigger(trigger.id)}
+                title="Remove trigger"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          <Select
+            value={trigger.type}
+            onValueChange={(value) => updateTrigger(trigger.id, { type: value as StartTriggerType })}
+          >
+            <SelectTrigger className="h-8 text-sm bg-node-bg border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {START_TRIGGER_TYPES.map((triggerType) => (
+                <SelectItem key={triggerType.id} value={triggerType.id}>
+                  {triggerType.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={trigger.value}
+            onChange={(e) => updateTrigger(trigger.id, { value: e.target.value })}
+            placeholder={START_TRIGGER_TYPES.find((triggerType) => triggerType.id === trigger.type)?.placeholder}
+            className="h-8 text-sm bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addTrigger}
+        className="w-full bg-node-bg hover:bg-secondary border-node-border"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add trigger
+      </Button>
+      <p className="text-xs text-text-muted">
+        Triggers are checked top to bottom. When none match, the conversation starts from the default connection.
+      </p>
+    </div>
+  );
+};
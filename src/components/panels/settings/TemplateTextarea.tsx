@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import { getTemplateVariables } from '@/lib/flow/templates';
+
+interface TemplateTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Variable names offered while typing `{{` */
+  variables: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * TemplateTextarea Component
+ *
+ * Textarea for message text with `{{variable}}` placeholders.
+ * Features:
+ * - Suggests variable names after `{{` (arrow keys, Enter/Tab to insert, Esc to close)
+ * - Flags placeholders that refer to unknown variables
+ */
+export const TemplateTextarea: React.FC<TemplateTextareaProps> = ({ value, onChange, variables, ...props }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query
+    ? variables.filter((name) => name.toLowerCase().startsWith(query.text.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : [];
+  const unknownVariables = getTemplateVariables(value).filter((name) => !variables.includes(name));
+
+  // Suggest while the caret sits right after an unfinished `{{name`
+  const updateQuery = (text: string, caret: number) => {
+    const match = /\{\{\s*([\w.]*)$/.exec(text.slice(0, caret));
+    setQuery(match ? { start: caret - match[1].length, text: match[1] } : null);
+    setHighlighted(0);
+  };
+
+  // Replace the partial name with the chosen one and close the placeholder
+  const insertVariable = (name: string) => {
+    if (!query) {
+      return;
+    }
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const rest = value.slice(caret);
+    const hasClosing = /^\s*\}\}/.test(rest);
+    const nextValue = `${value.slice(0, query.start)}${name}${hasClosing ? '' : '}}'}${rest}`;
+    const nextCaret = query.start + name.length + (hasClosing ? rest.indexOf('}}') : 0) + 2;
+
+    onChange(nextValue);
+    setQuery(null);
+    window.requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  // Keyboard navigation inside the suggestion list
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) {
+      return;
+    }
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const direction = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((index) => (index + direction + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insertVariable(suggestions[highlighted] ?? suggestions[0]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Textarea
+          {...props}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setQuery(null)}
+        />
+
+        {/* Variable suggestions */}
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute left-0 right-0 top-full z-20 mt-1 max-h-48 overflow-y-auto rounded-md border border-panel-border bg-popover py-1 shadow-md"
+          >
+            {suggestions.map((name, index) => (
+              <li
+                key={name}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  insertVariable(name);
+                }}
+                className={`cursor-pointer px-3 py-1 font-mono text-xs ${
+                  index === highlighted ? 'bg-secondary text-text-primary' : 'text-text-secondary'
+                }`}
+              >
+                {name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {unknownVariables.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          Unknown variable{unknownVariables.length > 1 ? 's' : ''}: {unknownVariables.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { ArrowRight, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { VariableMapping } from '@/lib/flow/subflows';
+import { createId } from '@/lib/flow/ids';
+
+interface VariableMappingsEditorProps {
+  id: string;
+  label: string;
+  description: string;
+  mappings: VariableMapping[];
+  /** Suggested names for each side of the mapping */
+  fromVariables: string[];
+  toVariables: string[];
+  fromPlaceholder: string;
+  toPlaceholder: string;
+  /** `structural` is true for add/remove, which should apply right away */
+  onChange: (mappings: VariableMapping[], structural: boolean) => void;
+}
+
+/**
+ * VariableMappingsEditor Component
+ *
+ * Editable list of `from → to` variable pairs, used for a Sub-flow node's
+ * inputs and outputs. Both fields suggest known variable names.
+ */
+export const VariableMappingsEditor: React.FC<VariableMappingsEditorProps> = ({
+  id,
+  label,
+  description,
+  mappings,
+  fromVariables,
+  toVariables,
+  fromPlaceholder,
+  toPlaceholder,
+  onChange,
+}) => {
+  const updateMapping = (mappingId: string, changes: Partial<VariableMapping>) => {
+    onChange(mappings.map((mapping) => (mapping.id === mappingId ? { ...mapping, ...changes } : mapping)), false);
+  };
+
+  const addMapping = () => {
+    onChange([...mappings, { id: createId('mapping'), from: '', to: '' }], true);
+  };
+
+  const removeMapping = (mappingId: string) => {
+    onChange(mappings.filter((mapping) => mapping.id !== mappingId), true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-text-primary">{label}</Label>
+
+      {mappings.map((mapping) => (
+        <div key={mapping.id} className="flex items-center gap-1">
+          <Input
+            value={mapping.from}
+            onChange={(e) => updateMapping(mapping.id, { from: e.target.value })}
+            list={`${id}-from`}
+            placeholder={fromPlaceholder}
+            className="h-8 font-mono text-xs bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+          <ArrowRight className="w-3 h-3 shrink-0 text-text-muted" />
+          <Input
+            value={mapping.to}
+            onChange={(e) => updateMapping(mapping.id, { to: e.target.value })}
+            list={`${id}-to`}
+            placeholder={toPlaceholder}
+            className="h-8 font-mono text-xs bg-node-bg border-input focus:border-input-focus focus:ring-ring"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 shrink-0 text-text-secondary hover:text-red-600"
+            onClick={() => removeMapping(mapping.id)}
+            title="Remove mapping"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
+      <datalist id={`${id}-from`}>
+        {fromVariables.map((name) => <option key={name} value={name} />)}
+      </datalist>
+      <datalist id={`${id}-to`}>
+        {toVariables.map((name) => <option key={name} value={name} />)}
+      </datalist>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addMapping}
+        className="w-full bg-node-bg hover:bg-secondary border-node-border"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add mapping
+      </Button>
+      <p className="text-xs text-text-muted">{description}</p>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Node, useReactFlow, XYPosition } from '@xyflow/react';
+import { layoutNodes } from '@/lib/flow/layout';
+import { withoutAnnotations } from '@/lib/flow/annotations';
+import { fitGroupsToContents, getAbsolutePosition, isGroupNode } from '@/lib/flow/groups';
+
+const ANIMATION_MS = 300;
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+/**
+ * useAutoLayout
+ *
+ * Tidies the canvas with the layered layout and animates nodes to their new
+ * positions. `takeSnapshot` is called once up front, so the whole layout is
+ * a single undo step. Notes and collapsed frames stay where they were put;
+ * expanded frames are fitted around their laid out contents.
+ */
+export function useAutoLayout(takeSnapshot: () => void) {
+  const { getNodes, getEdges, setNodes, fitView } = useReactFlow();
+  const frame = useRef<number>();
+
+  useEffect(() => () => window.cancelAnimationFrame(frame.current ?? 0), []);
+
+  /** Lays out the selected nodes when two or more are selected, otherwise the whole flow. */
+  const autoLayout = useCallback(() => {
+    const allNodes = getNodes();
+    const nodesById = new Map(allNodes.map((node) => [node.id, node]));
+    const layoutCandidates = withoutAnnotations(allNodes).filter((node) => !node.hidden);
+    const selected = layoutCandidates.filter((node) => node.selected);
+    const isSelection = selected.length > 1;
+
+    // Lay out in canvas coordinates, then convert back to frame coordinates
+    const canvasTargets = layoutNodes(
+      (isSelection ? selected : layoutCandidates).map((node) => ({ ...node, position: getAbsolutePosition(node, nodesById) })),
+      getEdges()
+    );
+    if (canvasTargets.size === 0) {
+      return;
+    }
+    const laidOut = allNodes.map((node): Node => {
+      const target = canvasTargets.get(node.id);
+      const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+      if (!target) {
+        return node;
+      }
+      return { ...node, position: parent ? { x: target.x - parent.position.x, y: target.y - parent.position.y } : target };
+    });
+    const movedGroupIds = new Set(
+      allNodes.filter((node) => canvasTargets.has(node.id) && node.parentId).map((node) => node.parentId as string)
+    );
+    const finalNodes = new Map(fitGroupsToContents(laidOut, movedGroupIds).map((node) => [node.id, node]));
+
+    const targets = new Map<string, XYPosition>();
+    const origins = new Map<string, XYPosition>();
+    allNodes.forEach((node) => {
+      const target = finalNodes.get(node.id)!.position;
+      if (target.x !== node.position.x || target.y !== node.position.y || movedGroupIds.has(node.id)) {
+        targets.set(node.id, target);
+        origins.set(node.id, node.position);
+      }
+    });
+
+    takeSnapshot();
+    window.cancelAnimationFrame(frame.current ?? 0);
+    const startTime = performance.now();
+
+    const step = (now: number) => {
+      const progress = easeInOut(Math.min(1, (now - startTime) / ANIMATION_MS));
+      setNodes((nds) =>
+        nds.map((node) => {
+          const origin = origins.get(node.id);
+          const target = targets.get(node.id);
+          if (!origin || !target) {
+            return node;
+          }
+          return {
+            ...node,
+            position: {
+              x: origin.x + (target.x - origin.x) * progress,
+              y: origin.y + (target.y - origin.y) * progress,
+            },
+            // Fitted frames take their new size once the contents arrive
+            ...(progress === 1 && isGroupNode(node) && { data: finalNodes.get(node.id)!.data }),
+          };
+        })
+      );
+
+      if (progress < 1) {
+        frame.current = window.requestAnimationFrame(step);
+      } else if (!isSelection) {
+        fitView({ padding: 0.1, duration: ANIMATION_MS });
+      }
+    };
+    frame.current = window.requestAnimationFrame(step);
+  }, [getNodes, getEdges, setNodes, fitView, takeSnapshot]);
+
+  return { autoLayout };
+}
@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react';
+import type { FlowDiagnostic } from '@/lib/flow/analysis';
+
+/**
+ * Editor services shared with node components rendered by React Flow,
+ * which cannot receive props from FlowBuilder directly.
+ */
+export interface FlowEditorContextValue {
+  /** Records an undo step before a change; see `useFlowHistory`. */
+  takeSnapshot: (coalesceKey?: string) => void;
+  /** Node currently executing in the preview, highlighted on the canvas */
+  activeNodeId: string | null;
+  /** Analyzer diagnostics grouped by node, shown as badges on node headers */
+  diagnosticsByNode: Map<string, FlowDiagnostic[]>;
+  /** Jump nodes leading to each node, shown as markers on their targets */
+  jumpSourcesByTarget: Map<string, string[]>;
+  /** Selects a node and brings it into view, expanding its frame if it is collapsed */
+  focusNode: (nodeId: string) => void;
+  /** Collapses or expands a frame (one undo step) */
+  toggleGroup: (groupId: string) => void;
+  /** Nodes matching the open find and replace search, highlighted on the canvas */
+  searchMatchIds: Set<string>;
+}
+
+export const FlowEditorContext = createContext<FlowEditorContextValue>({
+  takeSnapshot: () => {},
+  activeNodeId: null,
+  diagnosticsByNode: new Map(),
+  jumpSourcesByTarget: new Map(),
+  focusNode: () => {},
+  toggleGroup: () => {},
+  searchMatchIds: new Set(),
+});
+
+export const useFlowEditor = () => useContext(FlowEditorContext);
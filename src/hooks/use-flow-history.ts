@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Edge, Node } from '@xyflow/react';
+import type { FlowDocument } from '@/lib/flow/document';
+
+/** Document fields that are restored along with the canvas (imports and pastes change them too) */
+export type FlowHistoryFields = Pick<FlowDocument, 'name' | 'variables'>;
+
+interface FlowSnapshot extends FlowHistoryFields {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+interface UseFlowHistoryOptions extends FlowHistoryFields {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: (nodes: Node[]) => void;
+  setEdges: (edges: Edge[]) => void;
+  setFields: (fields: FlowHistoryFields) => void;
+}
+
+// Edits sharing a coalesce key within this window collapse into one undo step
+const COALESCE_WINDOW_MS = 1000;
+const MAX_HISTORY_ENTRIES = 100;
+// Upper bound on nodes + edges kept across all snapshots. Snapshots share
+// unchanged objects with the live state, so this is a conservative budget
+// that mainly shortens the history of very large flows.
+const MAX_HISTORY_ELEMENTS = 50_000;
+
+const snapshotSize = (snapshot: FlowSnapshot) => snapshot.nodes.length + snapshot.edges.length;
+
+/**
+ * useFlowHistory
+ *
+ * Snapshot-based undo/redo for the canvas and the flow's name and
+ * variables. Call `takeSnapshot` right
+ * before applying a change; passing a `coalesceKey` merges rapid edits of
+ * the same thing (e.g. typing in a field) into a single step.
+ */
+export function useFlowHistory({ nodes, edges, name, variables, setNodes, setEdges, setFields }: UseFlowHistoryOptions) {
+  const past = useRef<FlowSnapshot[]>([]);
+  const future = useRef<FlowSnapshot[]>([]);
+  const lastEntry = useRef<{ key?: string; time: number }>({ time: 0 });
+  const current = useRef<FlowSnapshot>({ nodes, edges, name, variables });
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    current.current = { nodes, edges, name, variables };
+  }, [nodes, edges, name, variables]);
+
+  // Drop the oldest entries until the history fits the budget
+  const trim = () => {
+    let size = [...past.current, ...future.current].reduce((total, entry) => total + snapshotSize(entry), 0);
+    while (past.current.length > 0 && (past.current.length > MAX_HISTORY_ENTRIES || size > MAX_HISTORY_ELEMENTS)) {
+      size -= snapshotSize(past.current.shift());
+    }
+  };
+
+  const takeSnapshot = useCallback((coalesceKey?: string) => {
+    const now = Date.now();
+    const isContinuation =
+      coalesceKey !== undefined &&
+      lastEntry.current.key === coalesceKey &&
+      now - lastEntry.current.time < COALESCE_WINDOW_MS;
+
+    lastEntry.current = { key: coalesceKey, time: now };
+    if (isContinuation) {
+      return;
+    }
+
+    past.current.push(current.current);
+    future.current = [];
+    trim();
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  const restore = useCallback((from: FlowSnapshot[], to: FlowSnapshot[]) => {
+    const snapshot = from.pop();
+    if (!snapshot) {
+      return;
+    }
+
+    to.push(current.current);
+    lastEntry.current = { time: 0 };
+    setNodes(snapshot.nodes);
+    setEdges(snapshot.edges);
+    setFields({ name: snapshot.name, variables: snapshot.variables });
+    setRevision((revision) => revision + 1);
+  }, [setNodes, setEdges, setFields]);
+
+  const undo = useCallback(() => restore(past.current, future.current), [restore]);
+  const redo = useCallback(() => restore(future.current, past.current), [restore]);
+
+  return {
+    takeSnapshot,
+    undo,
+    redo,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+}
@@ -0,0 +1,70 @@
+import { createContext, useContext } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { FlowDocument } from '@/lib/flow/document';
+import type { FlowRepository } from '@/lib/flow/repository';
+
+export const FlowRepositoryContext = createContext<FlowRepository | null>(null);
+
+export const flowListQueryKey = ['flows'] as const;
+
+export const flowQueryKey = (id: string) => ['flows', id] as const;
+
+export function useFlowRepository(): FlowRepository {
+  const repository = useContext(FlowRepositoryContext);
+  if (!repository) {
+    throw new Error('useFlowRepository must be used within a FlowRepositoryContext provider');
+  }
+  return repository;
+}
+
+/** Lists every stored flow for the dashboard. */
+export function useFlowListQuery() {
+  const repository = useFlowRepository();
+
+  return useQuery({
+    queryKey: flowListQueryKey,
+    queryFn: () => repository.list(),
+  });
+}
+
+/**
+ * Loads a single flow. The builder owns the live state once hydrated,
+ * so background refetches are disabled to avoid clobbering edits.
+ */
+export function useFlowQuery(id: string) {
+  const repository = useFlowRepository();
+
+  return useQuery({
+    queryKey: flowQueryKey(id),
+    queryFn: () => repository.load(id),
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+}
+
+export function useSaveFlowMutation() {
+  const repository = useFlowRepository();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (document: FlowDocument) => repository.save(document),
+    onSuccess: (_, document) => {
+      queryClient.setQueryData(flowQueryKey(document.id), document);
+      queryClient.invalidateQueries({ queryKey: flowListQueryKey, exact: true });
+    },
+  });
+}
+
+export function useDeleteFlowMutation() {
+  const repository = useFlowRepository();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => repository.remove(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: flowQueryKey(id), exact: true });
+      queryClient.invalidateQueries({ queryKey: flowListQueryKey, exact: true });
+    },
+  });
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { FlowDocument } from '@/lib/flow/document';
+import {
+  createFlowRuntime,
+  EndReason,
+  FlowSession,
+  OutboundMessage,
+  RuntimeEvent,
+  RuntimeStep,
+} from '@/lib/flow/runtime';
+import type { MessageMedia } from '@/lib/flow/media';
+
+export interface ChatEntry {
+  id: string;
+  from: 'bot' | 'user' | 'system';
+  text: string;
+  buttons?: { id: string; title: string }[];
+  media?: MessageMedia;
+  nodeId?: string;
+}
+
+interface SimulatorState {
+  session: FlowSession | null;
+  transcript: ChatEntry[];
+}
+
+const initialState: SimulatorState = { session: null, transcript: [] };
+
+// Stable default so the runtime isn't rebuilt on every render
+const noFlows: FlowDocument[] = [];
+
+const endNotices: Record<EndReason, string> = {
+  completed: 'Conversation ended.',
+  loop_limit: 'Stopped: the flow keeps looping without waiting for input.',
+  unsupported_node: 'Stopped: this node type cannot be previewed.',
+  missing_flow: 'Stopped: a Sub-flow node calls a flow that does not exist.',
+  call_depth: 'Stopped: sub-flows call each other too deeply.',
+};
+
+const toEntry = (message: OutboundMessage): Omit<ChatEntry, 'id'> => {
+  switch (message.type) {
+    case 'buttons':
+      return {
+        from: 'bot',
+        text: message.text,
+        nodeId: message.nodeId,
+        buttons: message.buttons.map(({ id, title }) => ({ id, title })),
+      };
+    case 'notice':
+      return { from: 'system', text: message.text };
+    case 'text':
+      return { from: 'bot', text: message.text, nodeId: message.nodeId, media: message.media };
+    default:
+      return { from: 'bot', text: message.text, nodeId: message.nodeId };
+  }
+};
+
+// Adds the runtime's output (and the user's reply, if any) to the transcript
+const applyStep = (state: SimulatorState, step: RuntimeStep, userText?: string): SimulatorState => {
+  const entries: Omit<ChatEntry, 'id'>[] = [
+    ...(userText !== undefined ? [{ from: 'user' as const, text: userText }] : []),
+    ...step.messages.map(toEntry),
+  ];
+  if (step.session.status === 'ended' && state.session?.status !== 'ended') {
+    entries.push({ from: 'system', text: endNotices[step.session.endReason ?? 'completed'] });
+  }
+
+  return {
+    session: step.session,
+    transcript: [
+      ...state.transcript,
+      ...entries.map((entry, index) => ({ ...entry, id: `entry-${state.transcript.length + index + 1}` })),
+    ],
+  };
+};
+
+/**
+ * useFlowSimulator
+ *
+ * Drives a `FlowRuntime` session for the preview and keeps the chat
+ * transcript. Every user input can be stepped back. `flows` are the stored
+ * flows Sub-flow nodes can call. `start` and `reset` keep their identity
+ * across flow edits, so opening the preview can start it without
+ * restarting on every edit.
+ */
+export function useFlowSimulator(document: FlowDocument, flows: FlowDocument[] = noFlows) {
+  const runtime = useMemo(
+    () => createFlowRuntime(document, { resolveFlow: (flowId) => flows.find((flow) => flow.id === flowId) }),
+    [document, flows]
+  );
+  const runtimeRef = useRef(runtime);
+  const [state, setState] = useState<SimulatorState>(initialState);
+  const [history, setHistory] = useState<SimulatorState[]>([]);
+
+  useEffect(() => {
+    runtimeRef.current = runtime;
+  }, [runtime]);
+
+  const start = useCallback((fromNodeId?: string) => {
+    setHistory([]);
+    setState(applyStep(initialState, runtimeRef.current.start({ fromNodeId })));
+  }, []);
+
+  const send = useCallback((event: RuntimeEvent) => {
+    if (!state.session) {
+      return;
+    }
+
+    // Show the pressed button's title as the user's reply
+    const lastButtons = [...state.transcript].reverse().find((entry) => entry.buttons)?.buttons ?? [];
+    const userText = event.type === 'button'
+      ? lastButtons.find((button) => button.id === event.buttonId)?.title ?? ''
+      : event.text;
+
+    setHistory((previous) => [...previous, state]);
+    setState(applyStep(state, runtime.send(state.session, event), userText));
+  }, [state, runtime]);
+
+  const stepBack = useCallback(() => {
+    if (history.length === 0) {
+      return;
+    }
+    setState(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+  }, [history]);
+
+  const reset = useCallback(() => {
+    setHistory([]);
+    setState(initialState);
+  }, []);
+
+  const session = state.session;
+  return {
+    transcript: state.transcript,
+    variables: session?.variables ?? {},
+    // Inside a sub-flow the canvas shows the outermost Sub-flow node as active
+    activeNodeId: session && session.status !== 'ended' ? session.callStack[0]?.nodeId ?? session.currentNodeId : null,
+    /** Flow the conversation is currently in (a called flow while inside a sub-flow) */
+    activeFlowId: session?.flowId ?? document.id,
+    waitingForInput: session?.status === 'waiting',
+    finished: session?.status === 'ended',
+    canStepBack: history.length > 0,
+    start,
+    send,
+    stepBack,
+    reset,
+  };
+}
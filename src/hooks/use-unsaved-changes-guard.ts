@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+/**
+ * Guards against losing unsaved edits. In-app navigation is blocked while
+ * `isDirty` (the caller confirms or cancels through the returned blocker);
+ * closing or reloading the tab triggers the browser's own prompt.
+ *
+ * Navigations within the same path (e.g. query changes) are not blocked.
+ */
+export function useUnsavedChangesGuard(isDirty: boolean) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) => isDirty && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!isDirty) {
+      return;
+    }
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  return blocker;
+}
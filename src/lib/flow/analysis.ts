@@ -0,0 +1,338 @@
+import { isAnnotationNode, withoutAnnotations } from './annotations';
+import { isGroupNode } from './groups';
+import { getBranchHandles, getSourceHandles } from './handles';
+import { getJumpEdges, getJumpTargetId, isJumpNode } from './jumps';
+import { getReachableNodeIds, isStartNode } from './start';
+import { getNodeTemplates, getTemplateVariables } from './templates';
+import { getKnownVariableNames, getVariableNameError } from './variables';
+import {
+  FlowWorkspace,
+  findCallCycle,
+  getSubflowInputVariables,
+  isSubflowNode,
+  isTerminalNode,
+} from './subflows';
+
+/**
+ * Flow analysis
+ *
+ * Structural checks over a flow graph. Every problem is reported as a
+ * diagnostic pointing at the node (and handle) it concerns, so the save path
+ * can block on errors while the editor lists and highlights everything.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'missing_start'
+  | 'unreachable'
+  | 'dangling_branch'
+  | 'dead_end'
+  | 'loop_without_input'
+  | 'duplicate_label'
+  | 'invalid_variable'
+  | 'unknown_variable'
+  | 'missing_subflow'
+  | 'recursive_subflow'
+  | 'missing_jump_target'
+  // Reported by `analyzeWhatsAppLimits` (`whatsapp.ts`), not `analyzeFlow`; never blocks saving
+  | 'channel_limit';
+
+export interface FlowDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  /** `null` for problems with the flow as a whole */
+  nodeId: string | null;
+  /** Set for problems with a specific source handle */
+  handleId: string | null;
+  message: string;
+}
+
+interface NodeLike {
+  id: string;
+  type?: string;
+  data: unknown;
+}
+
+interface EdgeLike {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+}
+
+interface VariableLike {
+  name?: string;
+}
+
+// Node types that stop and wait for the user before continuing
+// (sub-flows are assumed to, since the called flow may change between saves)
+const INPUT_NODE_TYPES = new Set(['buttonsNode', 'questionNode', 'subflowNode']);
+
+const getLabel = (node: NodeLike) => (node.data as { label?: string }).label?.trim() ?? '';
+
+export const nodeName = (node: NodeLike) => `"${getLabel(node) || node.id}"`;
+
+// Tarjan's algorithm; returns the strongly connected components of the graph
+const findStronglyConnectedComponents = (nodes: NodeLike[], edges: EdgeLike[]) => {
+  const successors = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  edges.forEach((edge) => successors.get(edge.source)?.push(edge.target));
+
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (nodeId: string) => {
+    indices.set(nodeId, nextIndex);
+    lowLinks.set(nodeId, nextIndex);
+    nextIndex++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    (successors.get(nodeId) ?? []).forEach((targetId) => {
+      if (!successors.has(targetId)) {
+        return;
+      }
+      if (!indices.has(targetId)) {
+        visit(targetId);
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(targetId)!));
+      } else if (onStack.has(targetId)) {
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indices.get(targetId)!));
+      }
+    });
+
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = [];
+      let memberId: string;
+      do {
+        memberId = stack.pop()!;
+        onStack.delete(memberId);
+        component.push(memberId);
+      } while (memberId !== nodeId);
+      components.push(component);
+    }
+  };
+
+  nodes.forEach((node) => {
+    if (!indices.has(node.id)) {
+      visit(node.id);
+    }
+  });
+  return components;
+};
+
+/**
+ * Runs every check and returns the diagnostics, errors before warnings.
+ * An empty list means the flow is structurally sound. Sub-flow calls are
+ * only checked against other flows when the `workspace` is known. Notes and
+ * frames are not part of the conversation and are ignored.
+ */
+export const analyzeFlow = (
+  allNodes: NodeLike[],
+  edges: EdgeLike[],
+  variables: VariableLike[] = [],
+  workspace?: FlowWorkspace
+): FlowDiagnostic[] => {
+  const diagnostics: FlowDiagnostic[] = [];
+  const nodes = withoutAnnotations(allNodes);
+  const annotationsById = new Map(allNodes.filter(isAnnotationNode).map((node) => [node.id, node]));
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  // Execution also follows Jump nodes to their targets
+  const executionEdges: EdgeLike[] = [...edges, ...getJumpEdges(nodes)];
+
+  // Conversations enter through the Start node, so every other node must be reachable from it
+  if (!nodes.some(isStartNode)) {
+    diagnostics.push({
+      code: 'missing_start',
+      severity: 'error',
+      nodeId: null,
+      handleId: null,
+      message: 'The flow has no Start node.',
+    });
+  } else {
+    const reachable = getReachableNodeIds(nodes, executionEdges);
+    nodes.forEach((node) => {
+      if (!reachable.has(node.id)) {
+        diagnostics.push({
+          code: 'unreachable',
+          severity: 'error',
+          nodeId: node.id,
+          handleId: null,
+          message: `${nodeName(node)} can't be reached from Start.`,
+        });
+      }
+    });
+  }
+
+  nodes.forEach((node) => {
+    const outgoing = edges.filter((edge) => edge.source === node.id);
+    const branches = getBranchHandles(node);
+
+    // Every branch of a multi-output node must lead somewhere
+    branches.forEach((handle) => {
+      if (!outgoing.some((edge) => (edge.sourceHandle ?? null) === handle.id)) {
+        diagnostics.push({
+          code: 'dangling_branch',
+          severity: 'error',
+          nodeId: node.id,
+          handleId: handle.id,
+          message: `${nodeName(node)} has an unconnected branch: ${handle.label}.`,
+        });
+      }
+    });
+
+    // Single-output nodes may end the conversation, but only on purpose
+    const hasOutput = getSourceHandles(node).length > 0;
+    if (hasOutput && branches.length === 0 && outgoing.length === 0 && !isTerminalNode(node)) {
+      diagnostics.push({
+        code: 'dead_end',
+        severity: 'warning',
+        nodeId: node.id,
+        handleId: null,
+        message: `${nodeName(node)} is a dead end. Connect it or mark it as the end of the conversation.`,
+      });
+    }
+
+    // Jumps must lead to another node of this flow
+    if (isJumpNode(node)) {
+      const targetId = getJumpTargetId(node);
+      const problem = !targetId
+        ? "doesn't have a target yet"
+        : targetId === node.id
+          ? 'jumps to itself'
+          : annotationsById.has(targetId)
+            ? `jumps to a ${isGroupNode(annotationsById.get(targetId)!) ? 'frame' : 'note'}`
+            : !nodesById.has(targetId)
+              ? 'jumps to a node that no longer exists'
+              : null;
+      if (problem) {
+        diagnostics.push({
+          code: 'missing_jump_target',
+          severity: 'error',
+          nodeId: node.id,
+          handleId: null,
+          message: `${nodeName(node)} ${problem}.`,
+        });
+      }
+    }
+  });
+
+  // A cycle that never waits for input repeats without the user being able to change anything
+  findStronglyConnectedComponents(nodes, executionEdges).forEach((component) => {
+    const members = new Set(component);
+    const isCycle = component.length > 1 || executionEdges.some((edge) => edge.source === component[0] && edge.target === component[0]);
+    if (!isCycle || component.some((nodeId) => INPUT_NODE_TYPES.has(nodesById.get(nodeId)?.type ?? ''))) {
+      return;
+    }
+
+    const loopNodes = nodes.filter((node) => members.has(node.id));
+    const names = loopNodes.map(nodeName).join(' → ');
+    const hasExit = executionEdges.some((edge) => members.has(edge.source) && !members.has(edge.target));
+    diagnostics.push({
+      code: 'loop_without_input',
+      severity: hasExit ? 'warning' : 'error',
+      nodeId: loopNodes[0].id,
+      handleId: null,
+      message: hasExit
+        ? `Loop without an input step (${names}). It only ends if a condition leads out of it.`
+        : `Infinite loop without an input step: ${names}.`,
+    });
+  });
+
+  // Labels identify nodes in the problems list, preview and exports
+  const labelCounts = new Map<string, number>();
+  nodes.forEach((node) => {
+    const label = getLabel(node).toLowerCase();
+    if (label) {
+      labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1);
+    }
+  });
+  nodes.forEach((node) => {
+    const count = labelCounts.get(getLabel(node).toLowerCase()) ?? 0;
+    if (count > 1) {
+      diagnostics.push({
+        code: 'duplicate_label',
+        severity: 'warning',
+        nodeId: node.id,
+        handleId: null,
+        message: `${nodeName(node)} shares its label with ${count - 1} other node${count > 2 ? 's' : ''}.`,
+      });
+    }
+  });
+
+  // Registry entries must be usable in templates and unique
+  variables.forEach((variable) => {
+    const error = getVariableNameError(variable.name ?? '', variables);
+    if (error) {
+      diagnostics.push({
+        code: 'invalid_variable',
+        severity: 'error',
+        nodeId: null,
+        handleId: null,
+        message: `Variable "${variable.name ?? ''}": ${error}.`,
+      });
+    }
+  });
+
+  // Sub-flow nodes must call an existing flow, and calls must not lead back to this flow
+  const flowsById = new Map(workspace?.flows.map((flow) => [flow.id, flow]));
+  const flowName = (id: string) => `"${flowsById.get(id)?.name ?? id}"`;
+  nodes.filter(isSubflowNode).forEach((node) => {
+    const calledFlowId = (node.data as { flowId?: string }).flowId ?? '';
+    if (!calledFlowId) {
+      diagnostics.push({
+        code: 'missing_subflow',
+        severity: 'error',
+        nodeId: node.id,
+        handleId: null,
+        message: `${nodeName(node)} doesn't call a flow yet.`,
+      });
+    } else if (workspace && calledFlowId !== workspace.flowId && !flowsById.has(calledFlowId)) {
+      diagnostics.push({
+        code: 'missing_subflow',
+        severity: 'error',
+        nodeId: node.id,
+        handleId: null,
+        message: `${nodeName(node)} calls a flow that no longer exists.`,
+      });
+    } else if (workspace) {
+      const cycle = findCallCycle(calledFlowId, workspace);
+      if (cycle) {
+        diagnostics.push({
+          code: 'recursive_subflow',
+          severity: 'error',
+          nodeId: node.id,
+          handleId: null,
+          message: cycle.length === 1
+            ? `${nodeName(node)} calls this flow from within itself.`
+            : `${nodeName(node)} leads back to this flow: ${cycle.slice(0, -1).map(flowName).join(' → ')} → this flow.`,
+        });
+      }
+    }
+  });
+
+  // Placeholders (and sub-flow inputs) should refer to a registered or captured variable
+  const knownVariables = new Set(getKnownVariableNames(variables, nodes));
+  nodes.forEach((node) => {
+    const referenced = [...getNodeTemplates(node).flatMap(getTemplateVariables), ...getSubflowInputVariables(node)];
+    const unknown = [...new Set(referenced)].filter(
+      (name) => !knownVariables.has(name)
+    );
+    if (unknown.length > 0) {
+      diagnostics.push({
+        code: 'unknown_variable',
+        severity: 'warning',
+        nodeId: node.id,
+        handleId: null,
+        message: `${nodeName(node)} uses unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}.`,
+      });
+    }
+  });
+
+  return [
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'error'),
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'warning'),
+  ];
+};
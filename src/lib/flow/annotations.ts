@@ -0,0 +1,18 @@
+import { GROUP_NODE_TYPE } from './groups';
+import { NOTE_NODE_TYPE } from './notes';
+
+const ANNOTATION_NODE_TYPES = new Set([NOTE_NODE_TYPE, GROUP_NODE_TYPE]);
+
+interface NodeLike {
+  type?: string;
+}
+
+/**
+ * Notes and frames organize and document the canvas for the people editing a
+ * flow. They have no handles and are left out of statistics, analysis, auto
+ * layout and the runtime.
+ */
+export const isAnnotationNode = (node: NodeLike) => ANNOTATION_NODE_TYPES.has(node.type ?? '');
+
+/** The nodes that take part in conversations, i.e. everything but notes and frames. */
+export const withoutAnnotations = <N extends NodeLike>(nodes: N[]) => nodes.filter((node) => !isAnnotationNode(node));
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import type { Edge, Node } from '@xyflow/react';
+import {
+  FlowDocumentError,
+  FlowVariable,
+  flowEdgeSchema,
+  flowNodeSchema,
+  flowVariableSchema,
+  formatPath,
+  fromFlowEdges,
+  fromFlowNodes,
+  parseFlowDocument,
+  toFlowEdges,
+  toFlowNodes,
+} from './document';
+import { getAbsolutePosition, isGroupNode } from './groups';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { isStartNode, withoutStartNode } from './start';
+import { getNodeTemplates, getTemplateVariables } from './templates';
+
+/**
+ * Clipboard payloads
+ *
+ * Copied selections are written to the system clipboard as JSON, using the
+ * document's node, edge and variable formats, so they can be pasted into
+ * another tab or flow. A selection has no Start node, so it is wrapped in its
+ * own `format` rather than being a full `FlowDocument`.
+ */
+
+export const CLIPBOARD_FORMAT = 'chatbot-flow-builder/selection';
+
+const clipboardSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  nodes: z.array(flowNodeSchema),
+  edges: z.array(flowEdgeSchema),
+  variables: z.array(flowVariableSchema),
+});
+
+export interface ClipboardContent {
+  nodes: Node[];
+  edges: Edge[];
+  /** Registry entries the copied nodes refer to */
+  variables: FlowVariable[];
+}
+
+/**
+ * The nodes to copy from a selection and the edges between them. The Start
+ * node is never copied; edges leaving the selection are dropped. Selected
+ * frames bring their contents along, and selected nodes whose frame isn't
+ * selected are taken out of it.
+ */
+export const getSelectionContent = (
+  nodes: Node[],
+  edges: Edge[],
+  variables: FlowVariable[]
+): ClipboardContent => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const selectedGroupIds = new Set(nodes.filter((node) => node.selected && isGroupNode(node)).map((node) => node.id));
+  const selectedNodes = nodes
+    .filter((node) => (node.selected || selectedGroupIds.has(node.parentId ?? '')) && !isStartNode(node))
+    .map((node) => {
+      if (!node.parentId || selectedGroupIds.has(node.parentId)) {
+        return node;
+      }
+      const { parentId: _frame, ...rest } = node;
+      return { ...rest, position: getAbsolutePosition(node, nodesById) };
+    });
+  const selectedIds = new Set(selectedNodes.map((node) => node.id));
+  const usedNames = new Set(
+    selectedNodes.flatMap((node) => getNodeTemplates(node).flatMap(getTemplateVariables))
+  );
+
+  return {
+    nodes: selectedNodes,
+    edges: edges.filter((edge) => selectedIds.has(edge.source) && selectedIds.has(edge.target)),
+    variables: variables.filter((variable) => usedNames.has(variable.name)),
+  };
+};
+
+export const serializeClipboard = (content: ClipboardContent) =>
+  JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    nodes: toFlowNodes(content.nodes),
+    edges: toFlowEdges(content.edges),
+    variables: content.variables,
+  });
+
+/**
+ * Reads pasted text. Accepts copied selections and whole flow documents
+ * (whose Start node is left out). Returns `null` for text that isn't ours;
+ * throws `FlowDocumentError` when it is ours but invalid.
+ */
+export const parseClipboard = (text: string): ClipboardContent | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+
+  if ((parsed as { format?: unknown }).format === CLIPBOARD_FORMAT) {
+    const result = clipboardSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new FlowDocumentError(
+        result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+      );
+    }
+    return {
+      nodes: fromFlowNodes(result.data.nodes),
+      edges: fromFlowEdges(result.data.edges),
+      variables: result.data.variables,
+    };
+  }
+
+  if ('nodes' in parsed && 'edges' in parsed) {
+    const document = parseFlowDocument(parsed);
+    const flow = withoutStartNode(fromFlowNodes(document.nodes), fromFlowEdges(document.edges));
+    return { ...flow, variables: document.variables };
+  }
+  return null;
+};
@@ -0,0 +1,69 @@
+import type { Edge, Node } from '@xyflow/react';
+import { createEdgeId, createNodeId } from './ids';
+import { getJumpTargetId, isJumpNode } from './jumps';
+
+/**
+ * Copies a set of nodes and the edges between them under freshly generated
+ * ids, so the copy can be added to a flow that may already contain the
+ * originals. Edges pointing outside the set are dropped; Jump nodes follow
+ * the copy of their target and lose a target that isn't copied, and the
+ * contents of copied frames follow their frame. Nodes whose frame isn't
+ * copied must already have canvas positions (see `getSelectionContent`);
+ * they are copied without a frame.
+ */
+export const cloneWithNewIds = (
+  nodes: Node[],
+  edges: Edge[],
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): { nodes: Node[]; edges: Edge[] } => {
+  const idMap = new Map(nodes.map((node) => [node.id, createNodeId()]));
+
+  return {
+    nodes: nodes.map((node) => {
+      const targetId = idMap.get(getJumpTargetId(node)) ?? '';
+      const parentId = node.parentId ? idMap.get(node.parentId) : undefined;
+      const { parentId: _original, ...rest } = node;
+      return {
+        ...rest,
+        id: idMap.get(node.id),
+        // Contents of frames move with their frame
+        position: parentId ? node.position : { x: node.position.x + offset.x, y: node.position.y + offset.y },
+        data: isJumpNode(node) ? { ...node.data, targetId } : { ...node.data },
+        selected: false,
+        ...(parentId && { parentId }),
+      };
+    }),
+    edges: edges
+      .filter((edge) => idMap.has(edge.source) && idMap.has(edge.target))
+      .map((edge) => ({
+        ...edge,
+        id: createEdgeId(),
+        source: idMap.get(edge.source),
+        target: idMap.get(edge.target),
+        selected: false,
+      })),
+  };
+};
+
+/**
+ * Bounding box of node positions, using measured sizes when React Flow has
+ * them. Contents of frames lie within their frame and are left out.
+ */
+export const getNodesBounds = (allNodes: Node[]) => {
+  const nodes = allNodes.filter((node) => !node.parentId);
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  const xs = nodes.map((node) => node.position.x);
+  const ys = nodes.map((node) => node.position.y);
+  const rights = nodes.map((node) => node.position.x + (node.measured?.width ?? node.width ?? 0));
+  const bottoms = nodes.map((node) => node.position.y + (node.measured?.height ?? node.height ?? 0));
+
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    right: Math.max(...rights),
+    bottom: Math.max(...bottoms),
+  };
+};
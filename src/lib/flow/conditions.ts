@@ -0,0 +1,69 @@
+export const CONDITION_OPERATOR_IDS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'greater_than',
+  'less_than',
+  'is_set',
+  'is_not_set',
+] as const;
+
+export type ConditionOperator = (typeof CONDITION_OPERATOR_IDS)[number];
+
+export interface ConditionRule {
+  /** Stable id, also used as the rule's source handle id */
+  id: string;
+  variable: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export const CONDITION_OPERATORS: { id: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { id: 'equals', label: 'equals', needsValue: true },
+  { id: 'not_equals', label: 'does not equal', needsValue: true },
+  { id: 'contains', label: 'contains', needsValue: true },
+  { id: 'greater_than', label: 'is greater than', needsValue: true },
+  { id: 'less_than', label: 'is less than', needsValue: true },
+  { id: 'is_set', label: 'is set', needsValue: false },
+  { id: 'is_not_set', label: 'is not set', needsValue: false },
+];
+
+export const operatorNeedsValue = (operator: ConditionOperator) =>
+  CONDITION_OPERATORS.find((entry) => entry.id === operator)?.needsValue ?? true;
+
+/** Human readable summary, e.g. `age is greater than 18` */
+export const describeRule = (rule: ConditionRule) => {
+  const operator = CONDITION_OPERATORS.find((entry) => entry.id === rule.operator)?.label ?? rule.operator;
+  const variable = rule.variable || '(variable)';
+  return operatorNeedsValue(rule.operator) ? `${variable} ${operator} ${rule.value || '""'}` : `${variable} ${operator}`;
+};
+
+const toNumber = (value: string | undefined) => (value === undefined || value.trim() === '' ? NaN : Number(value));
+
+/**
+ * Evaluates a rule against the current variable values.
+ * Comparisons are case-insensitive; numeric operators need numeric values.
+ */
+export const evaluateRule = (rule: ConditionRule, variables: Record<string, string>): boolean => {
+  const actual = variables[rule.variable];
+  const isSet = actual !== undefined && actual !== '';
+
+  switch (rule.operator) {
+    case 'is_set':
+      return isSet;
+    case 'is_not_set':
+      return !isSet;
+    case 'equals':
+      return (actual ?? '').trim().toLowerCase() === rule.value.trim().toLowerCase();
+    case 'not_equals':
+      return (actual ?? '').trim().toLowerCase() !== rule.value.trim().toLowerCase();
+    case 'contains':
+      return isSet && actual.toLowerCase().includes(rule.value.toLowerCase());
+    case 'greater_than':
+      return toNumber(actual) > toNumber(rule.value);
+    case 'less_than':
+      return toNumber(actual) < toNumber(rule.value);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,405 @@
+import { z } from 'zod';
+import type { Edge, Node, Viewport } from '@xyflow/react';
+import { CONDITION_OPERATOR_IDS } from './conditions';
+import { GROUP_COLOR_IDS, isGroupNode, sortGroupsFirst } from './groups';
+import { QUESTION_INPUT_TYPE_IDS } from './input-validation';
+import { MEDIA_TYPE_IDS } from './media';
+import { MAX_QUICK_REPLIES } from './quick-replies';
+import { NOTE_COLOR_IDS } from './notes';
+import { START_NODE_ID, START_TRIGGER_TYPE_IDS, isStartNode } from './start';
+import { VARIABLE_NAME_PATTERN, VARIABLE_SCOPE_IDS, VARIABLE_TYPE_IDS } from './variables';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateFlowDocument } from './migrations';
+
+/**
+ * FlowDocument
+ *
+ * Canonical, versioned representation of a chatbot flow. This is what gets
+ * stored, imported and exported; React Flow's `Node[]`/`Edge[]` are derived
+ * from it when a document is opened in the builder.
+ */
+
+const positionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const viewportSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  zoom: z.number().positive(),
+});
+
+const startNodeDataSchema = z.object({
+  label: z.string(),
+  triggers: z.array(
+    z.object({
+      id: z.string().min(1),
+      type: z.enum(START_TRIGGER_TYPE_IDS),
+      value: z.string(),
+    })
+  ),
+});
+
+const textNodeDataSchema = z.object({
+  label: z.string(),
+  text: z.string(),
+  terminal: z.boolean().optional(),
+  media: z
+    .object({
+      type: z.enum(MEDIA_TYPE_IDS),
+      url: z.string(),
+    })
+    .optional(),
+});
+
+const conditionNodeDataSchema = z.object({
+  label: z.string(),
+  rules: z.array(
+    z.object({
+      id: z.string().min(1),
+      variable: z.string(),
+      operator: z.enum(CONDITION_OPERATOR_IDS),
+      value: z.string(),
+    })
+  ),
+});
+
+const buttonsNodeDataSchema = z.object({
+  label: z.string(),
+  text: z.string(),
+  buttons: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        title: z.string(),
+        payload: z.string(),
+      })
+    )
+    .max(MAX_QUICK_REPLIES),
+});
+
+const questionNodeDataSchema = z.object({
+  label: z.string(),
+  text: z.string(),
+  inputType: z.enum(QUESTION_INPUT_TYPE_IDS),
+  pattern: z.string().optional(),
+  variable: z.string(),
+  retryMessage: z.string(),
+  maxRetries: z.number().int().min(0),
+});
+
+const variableMappingSchema = z.object({
+  id: z.string().min(1),
+  from: z.string(),
+  to: z.string(),
+});
+
+const subflowNodeDataSchema = z.object({
+  label: z.string(),
+  flowId: z.string(),
+  inputs: z.array(variableMappingSchema),
+  outputs: z.array(variableMappingSchema),
+  // Exit points of the called flow as of the last sync; one source handle each
+  exits: z.array(
+    z.object({
+      id: z.string().min(1),
+      label: z.string(),
+    })
+  ),
+});
+
+const jumpNodeDataSchema = z.object({
+  label: z.string(),
+  targetId: z.string(),
+});
+
+const noteNodeDataSchema = z.object({
+  text: z.string(),
+  color: z.enum(NOTE_COLOR_IDS),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+const groupNodeDataSchema = z.object({
+  label: z.string(),
+  color: z.enum(GROUP_COLOR_IDS),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  collapsed: z.boolean(),
+});
+
+const nodeBaseSchema = z.object({
+  id: z.string().min(1),
+  // Frame the node belongs to; its position is then relative to the frame
+  parentId: z.string().min(1).optional(),
+  position: positionSchema,
+});
+
+// One entry per node type, discriminated by `type`
+export const flowNodeSchema = z.discriminatedUnion('type', [
+  nodeBaseSchema.extend({ type: z.literal('startNode'), data: startNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('textNode'), data: textNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('buttonsNode'), data: buttonsNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('conditionNode'), data: conditionNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('questionNode'), data: questionNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('subflowNode'), data: subflowNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('jumpNode'), data: jumpNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('noteNode'), data: noteNodeDataSchema }),
+  nodeBaseSchema.extend({ type: z.literal('groupNode'), data: groupNodeDataSchema }),
+]);
+
+export const flowEdgeSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  sourceHandle: z.string().nullish(),
+  targetHandle: z.string().nullish(),
+});
+
+export const flowVariableSchema = z.object({
+  name: z.string().regex(VARIABLE_NAME_PATTERN, 'Must start with a letter or underscore and contain only letters, digits, "_" or "."'),
+  type: z.enum(VARIABLE_TYPE_IDS),
+  defaultValue: z.string().optional(),
+  scope: z.enum(VARIABLE_SCOPE_IDS),
+});
+
+export const flowMetadataSchema = z.object({
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  viewport: viewportSchema,
+  description: z.string().optional(),
+});
+
+export const flowDocumentSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+    nodes: z.array(flowNodeSchema),
+    edges: z.array(flowEdgeSchema),
+    variables: z.array(flowVariableSchema),
+    metadata: flowMetadataSchema,
+  })
+  .superRefine((document, ctx) => {
+    const nodeIds = new Set<string>();
+    document.nodes.forEach((node, index) => {
+      if (nodeIds.has(node.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', index, 'id'], message: `Duplicate node id "${node.id}"` });
+      }
+      nodeIds.add(node.id);
+    });
+
+    // Nodes can only belong to a frame, frames can't be nested and the Start node stays outside
+    const nodesById = new Map(document.nodes.map((node) => [node.id, node]));
+    document.nodes.forEach((node, index) => {
+      if (!node.parentId) {
+        return;
+      }
+      const parent = nodesById.get(node.parentId);
+      const problem = !parent
+        ? `Unknown frame "${node.parentId}"`
+        : !isGroupNode(parent)
+          ? `"${node.parentId}" is not a frame`
+          : isGroupNode(node)
+            ? "Frames can't be nested"
+            : isStartNode(node)
+              ? "The Start node can't be in a frame"
+              : null;
+      if (problem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', index, 'parentId'], message: problem });
+      }
+    });
+
+    const variableNames = new Set<string>();
+    document.variables.forEach((variable, index) => {
+      if (variableNames.has(variable.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variables', index, 'name'], message: `Duplicate variable "${variable.name}"` });
+      }
+      variableNames.add(variable.name);
+    });
+
+    const startNodeCount = document.nodes.filter(isStartNode).length;
+    if (startNodeCount !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['nodes'],
+        message: `A flow needs exactly one Start node, found ${startNodeCount}`,
+      });
+    }
+
+    document.edges.forEach((edge, index) => {
+      (['source', 'target'] as const).forEach((end) => {
+        if (!nodeIds.has(edge[end])) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', index, end], message: `Unknown node "${edge[end]}"` });
+        }
+      });
+    });
+  });
+
+export type FlowDocument = z.infer<typeof flowDocumentSchema>;
+export type FlowNode = z.infer<typeof flowNodeSchema>;
+export type FlowEdge = z.infer<typeof flowEdgeSchema>;
+export type FlowVariable = z.infer<typeof flowVariableSchema>;
+
+export interface FlowDocumentIssue {
+  /** Dotted path into the document, e.g. `nodes[2].data.text` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a document cannot be migrated or fails validation.
+ * `issues` lists every problem with its location in the document.
+ */
+export class FlowDocumentError extends Error {
+  readonly issues: FlowDocumentIssue[];
+
+  constructor(issues: FlowDocumentIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+      .join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Invalid flow document: ${summary}${more}`);
+    this.name = 'FlowDocumentError';
+    this.issues = issues;
+  }
+}
+
+/** Formats an issue path the way `FlowDocumentIssue.path` expects, e.g. `nodes[2].data.text`. */
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (result, segment) => (typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment),
+    ''
+  );
+
+/**
+ * Migrates and validates untrusted input (storage, imported files).
+ * Throws `FlowDocumentError` with path-level issues when the input is invalid.
+ */
+export const parseFlowDocument = (input: unknown): FlowDocument => {
+  const version = getSchemaVersion(input);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new FlowDocumentError([{ path: 'schemaVersion', message: `Unsupported schema version ${version}` }]);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new FlowDocumentError([
+      {
+        path: 'schemaVersion',
+        message: `Document uses schema version ${version}, but this build only supports up to ${CURRENT_SCHEMA_VERSION}`,
+      },
+    ]);
+  }
+
+  const result = flowDocumentSchema.safeParse(migrateFlowDocument(input));
+  if (!result.success) {
+    throw new FlowDocumentError(
+      result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+    );
+  }
+  return result.data;
+};
+
+export const createFlowDocument = (id: string, name = 'Untitled flow'): FlowDocument => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    nodes: [
+      { id: START_NODE_ID, type: 'startNode', position: { x: 0, y: 0 }, data: { label: 'Start', triggers: [] } },
+    ],
+    edges: [],
+    variables: [],
+    metadata: { createdAt: now, updatedAt: now, viewport: { x: 0, y: 0, zoom: 1 } },
+  };
+};
+
+/** Copies a document under a new id and name, e.g. to duplicate a flow. */
+export const copyFlowDocument = (document: FlowDocument, id: string, name: string): FlowDocument => {
+  const now = new Date().toISOString();
+  return {
+    ...document,
+    id,
+    name,
+    metadata: { ...document.metadata, createdAt: now, updatedAt: now },
+  };
+};
+
+/** Strips React Flow nodes down to their document form. */
+export const toFlowNodes = (nodes: Node[]): FlowNode[] =>
+  nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    ...(node.parentId && { parentId: node.parentId }),
+    position: { x: node.position.x, y: node.position.y },
+    data: node.data,
+  })) as FlowNode[];
+
+/** Strips React Flow edges down to their document form. */
+export const toFlowEdges = (edges: Edge[]): FlowEdge[] =>
+  edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle ?? null,
+    targetHandle: edge.targetHandle ?? null,
+  }));
+
+/**
+ * Builds a document from the builder's live React Flow state, keeping the
+ * identity, variables and metadata of `base`. Transient UI state
+ * (selection, measurements) is dropped.
+ */
+export const toFlowDocument = (
+  base: FlowDocument,
+  nodes: Node[],
+  edges: Edge[],
+  viewport: Viewport
+): FlowDocument => ({
+  ...base,
+  nodes: toFlowNodes(nodes),
+  edges: toFlowEdges(edges),
+  metadata: {
+    ...base.metadata,
+    updatedAt: new Date().toISOString(),
+    viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+  },
+});
+
+/** Reads the saved viewport in the shape React Flow expects. */
+export const getDocumentViewport = (document: FlowDocument): Viewport => {
+  const { x, y, zoom } = document.metadata.viewport;
+  return { x, y, zoom };
+};
+
+/**
+ * Converts document nodes into React Flow nodes. The Start node is marked
+ * non-deletable, and frames come first so React Flow sees them before their
+ * contents.
+ */
+export const fromFlowNodes = (nodes: FlowNode[]): Node[] =>
+  sortGroupsFirst(nodes).map((node) => ({
+    id: node.id,
+    type: node.type,
+    ...(node.parentId && { parentId: node.parentId }),
+    position: { x: node.position.x, y: node.position.y },
+    data: { ...node.data },
+    ...(isStartNode(node) && { deletable: false }),
+  }));
+
+/** Converts document edges into React Flow edges. */
+export const fromFlowEdges = (edges: FlowEdge[]): Edge[] =>
+  edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle ?? null,
+    targetHandle: edge.targetHandle ?? null,
+  }));
+
+/** Converts a document into the nodes and edges React Flow renders. */
+export const fromFlowDocument = (document: FlowDocument): { nodes: Node[]; edges: Edge[] } => ({
+  nodes: fromFlowNodes(document.nodes),
+  edges: fromFlowEdges(document.edges),
+});
@@ -0,0 +1,43 @@
+import { FlowDocument, FlowDocumentError, parseFlowDocument } from './document';
+import type { WhatsAppBundle } from './whatsapp';
+
+const toFileName = (name: string, suffix = '') =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'flow'}${suffix}.json`;
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
+/** Triggers a browser download of the document as pretty-printed JSON. */
+export const downloadFlowDocument = (document: FlowDocument) => downloadJson(document, toFileName(document.name));
+
+/** Triggers a browser download of a WhatsApp export, e.g. `support-bot.whatsapp.json`. */
+export const downloadWhatsAppBundle = (bundle: WhatsAppBundle) =>
+  downloadJson(bundle, toFileName(bundle.flow.name, '.whatsapp'));
+
+export const isFlowFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+/**
+ * Reads and validates a flow file chosen by the user.
+ * Rejects with a `FlowDocumentError` for malformed JSON or invalid documents.
+ */
+export const readFlowDocumentFile = async (file: File): Promise<FlowDocument> => {
+  const text = await file.text();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new FlowDocumentError([{ path: '', message: `"${file.name}" is not valid JSON` }]);
+  }
+  return parseFlowDocument(parsed);
+};
@@ -0,0 +1,267 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { getNodeSize } from './placement';
+import { isStartNode } from './start';
+
+/**
+ * Frames
+ *
+ * Frames (group nodes) collect related nodes into a named, colored section of
+ * the canvas. Their contents are React Flow child nodes (`parentId`), so they
+ * move with the frame and are positioned relative to it. Frames can't be
+ * nested, and the Start node always stays outside of them. A collapsed frame hides its contents and stands in for them: edges
+ * from and to the contents are drawn to the frame's border instead.
+ */
+
+export const GROUP_NODE_TYPE = 'groupNode';
+
+export const GROUP_COLOR_IDS = ['gray', 'blue', 'green', 'yellow', 'pink', 'purple'] as const;
+
+export type GroupColor = (typeof GROUP_COLOR_IDS)[number];
+
+export const GROUP_COLORS: { id: GroupColor; label: string }[] = [
+  { id: 'gray', label: 'Gray' },
+  { id: 'blue', label: 'Blue' },
+  { id: 'green', label: 'Green' },
+  { id: 'yellow', label: 'Yellow' },
+  { id: 'pink', label: 'Pink' },
+  { id: 'purple', label: 'Purple' },
+];
+
+export const DEFAULT_GROUP_SIZE = { width: 480, height: 300 };
+export const MIN_GROUP_SIZE = { width: 240, height: 120 };
+
+// Space between a frame's border and its contents, and the height of its title bar
+export const GROUP_PADDING = 40;
+export const GROUP_HEADER_HEIGHT = 40;
+
+/** Source handle of collapsed frames that edges leaving their contents are drawn from */
+export const COLLAPSED_GROUP_HANDLE_ID = 'collapsed';
+
+interface NodeLike {
+  type?: string;
+  data?: unknown;
+}
+
+export const isGroupNode = (node: NodeLike) => node.type === GROUP_NODE_TYPE;
+
+export const isCollapsedGroup = (node: NodeLike | undefined) =>
+  Boolean(node && isGroupNode(node) && (node.data as { collapsed?: boolean }).collapsed);
+
+/** Whether a node can be put into a frame: not a frame itself, and not the Start node. */
+export const canBeGrouped = (node: NodeLike) => !isGroupNode(node) && !isStartNode(node);
+
+/** Nodes with frames first, as React Flow needs parents before their children. */
+export const sortGroupsFirst = <N extends NodeLike>(nodes: N[]) => [
+  ...nodes.filter(isGroupNode),
+  ...nodes.filter((node) => !isGroupNode(node)),
+];
+
+/** Position on the canvas; children of frames store theirs relative to the frame. */
+export const getAbsolutePosition = (node: Node, nodesById: Map<string, Node>): XYPosition => {
+  const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+  return parent
+    ? { x: parent.position.x + node.position.x, y: parent.position.y + node.position.y }
+    : node.position;
+};
+
+/** Whether a node is hidden inside a collapsed frame. */
+export const isInCollapsedGroup = (node: Node, nodesById: Map<string, Node>) =>
+  Boolean(node.parentId && isCollapsedGroup(nodesById.get(node.parentId)));
+
+/** The frame's size as stored in its data. */
+const getGroupSize = (group: Node) => {
+  const { width, height } = group.data as { width?: number; height?: number };
+  return { width: width ?? DEFAULT_GROUP_SIZE.width, height: height ?? DEFAULT_GROUP_SIZE.height };
+};
+
+/** Moves a node into a frame (or out of any frame with `parentId` undefined), keeping its place on the canvas. */
+const setParent = (node: Node, parentId: string | undefined, nodesById: Map<string, Node>): Node => {
+  const absolute = getAbsolutePosition(node, nodesById);
+  const parent = parentId ? nodesById.get(parentId) : undefined;
+  const { parentId: _previous, ...rest } = node;
+  return parent
+    ? { ...rest, parentId: parent.id, position: { x: absolute.x - parent.position.x, y: absolute.y - parent.position.y } }
+    : { ...rest, position: absolute };
+};
+
+/**
+ * Puts `nodeIds` into a new frame sized to fit around them. Frames and the
+ * Start node among them are left out, and nodes leave the frame they were
+ * in before.
+ */
+export const groupNodes = (nodes: Node[], nodeIds: string[], group: { id: string; data: Record<string, unknown> }) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const ids = new Set(nodeIds.filter((id) => nodesById.has(id) && canBeGrouped(nodesById.get(id)!)));
+  if (ids.size === 0) {
+    return nodes;
+  }
+
+  const members = nodes.filter((node) => ids.has(node.id));
+  const positions = members.map((node) => getAbsolutePosition(node, nodesById));
+  const left = Math.min(...positions.map((position) => position.x));
+  const top = Math.min(...positions.map((position) => position.y));
+  const right = Math.max(...members.map((node, index) => positions[index].x + getNodeSize(node).width));
+  const bottom = Math.max(...members.map((node, index) => positions[index].y + getNodeSize(node).height));
+
+  const groupNode: Node = {
+    id: group.id,
+    type: GROUP_NODE_TYPE,
+    position: { x: left - GROUP_PADDING, y: top - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+    data: {
+      ...group.data,
+      width: right - left + GROUP_PADDING * 2,
+      height: bottom - top + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+    },
+  };
+  const withGroup = new Map(nodesById).set(groupNode.id, groupNode);
+
+  return [
+    groupNode,
+    ...nodes.map((node) => (ids.has(node.id) ? setParent(node, groupNode.id, withGroup) : node)),
+  ];
+};
+
+/** Removes a frame, keeping its contents where they are on the canvas. */
+export const ungroupNodes = (nodes: Node[], groupId: string) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  return nodes
+    .filter((node) => node.id !== groupId)
+    .map((node) => (node.parentId === groupId ? setParent(node, undefined, nodesById) : node));
+};
+
+/**
+ * Takes the nodes that were in one of the `removed` frames out of it, keeping
+ * their place on the canvas. Deleting a frame deletes its contents, but nodes
+ * that can't be deleted (the Start node of older flows) stay behind.
+ */
+export const releaseFromRemovedGroups = (nodes: Node[], removed: Node[]) => {
+  const removedById = new Map(removed.filter(isGroupNode).map((group) => [group.id, group]));
+  if (!nodes.some((node) => node.parentId && removedById.has(node.parentId))) {
+    return nodes;
+  }
+  return nodes.map((node) => (node.parentId && removedById.has(node.parentId) ? setParent(node, undefined, removedById) : node));
+};
+
+/**
+ * Finds the expanded frame a node dropped at `position` (absolute, top-left)
+ * lands in: the first frame containing the node's center.
+ */
+export const findDropGroup = (node: Node, position: XYPosition, nodes: Node[]) => {
+  const size = getNodeSize(node);
+  const center = { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+  return nodes.find((candidate) => {
+    if (!isGroupNode(candidate) || isCollapsedGroup(candidate) || candidate.id === node.id) {
+      return false;
+    }
+    const { width, height } = getGroupSize(candidate);
+    return (
+      center.x >= candidate.position.x &&
+      center.x <= candidate.position.x + width &&
+      center.y >= candidate.position.y &&
+      center.y <= candidate.position.y + height
+    );
+  });
+};
+
+/**
+ * Moves dragged nodes into the frame they were dropped on, or out of their
+ * frame when dropped outside of it. Frames and the Start node never get a parent.
+ */
+export const reparentDroppedNodes = (nodes: Node[], droppedIds: string[]) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const dropped = new Set(droppedIds);
+  let changed = false;
+
+  const result = nodes.map((node) => {
+    if (!dropped.has(node.id) || !canBeGrouped(node)) {
+      return node;
+    }
+    const parentId = findDropGroup(node, getAbsolutePosition(node, nodesById), nodes)?.id;
+    if (parentId === node.parentId) {
+      return node;
+    }
+    changed = true;
+    return setParent(node, parentId, nodesById);
+  });
+  return changed ? result : nodes;
+};
+
+/**
+ * Resizes and moves the frames in `groupIds` so they fit tightly around
+ * their visible contents, e.g. after an auto layout. Contents keep their
+ * place on the canvas.
+ */
+export const fitGroupsToContents = (nodes: Node[], groupIds: Set<string>) => {
+  const offsets = new Map<string, XYPosition>();
+  const sizes = new Map<string, { width: number; height: number }>();
+
+  nodes.forEach((group) => {
+    if (!groupIds.has(group.id) || !isGroupNode(group) || isCollapsedGroup(group)) {
+      return;
+    }
+    const children = nodes.filter((node) => node.parentId === group.id && !node.hidden);
+    if (children.length === 0) {
+      return;
+    }
+
+    const left = Math.min(...children.map((node) => node.position.x));
+    const top = Math.min(...children.map((node) => node.position.y));
+    const right = Math.max(...children.map((node) => node.position.x + getNodeSize(node).width));
+    const bottom = Math.max(...children.map((node) => node.position.y + getNodeSize(node).height));
+    offsets.set(group.id, { x: left - GROUP_PADDING, y: top - GROUP_PADDING - GROUP_HEADER_HEIGHT });
+    sizes.set(group.id, {
+      width: right - left + GROUP_PADDING * 2,
+      height: bottom - top + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+    });
+  });
+
+  return nodes.map((node) => {
+    const groupOffset = offsets.get(node.id);
+    if (groupOffset) {
+      return {
+        ...node,
+        position: { x: node.position.x + groupOffset.x, y: node.position.y + groupOffset.y },
+        data: { ...node.data, ...sizes.get(node.id) },
+      };
+    }
+    const parentOffset = node.parentId ? offsets.get(node.parentId) : undefined;
+    return parentOffset
+      ? { ...node, position: { x: node.position.x - parentOffset.x, y: node.position.y - parentOffset.y } }
+      : node;
+  });
+};
+
+/**
+ * The edges React Flow draws: edges between the contents of a collapsed
+ * frame are left out, and edges from or to its contents are drawn from or
+ * to the frame's border. Edge ids are kept, so selecting or deleting a
+ * rerouted edge acts on the real one.
+ */
+export const getCanvasEdges = (nodes: Node[], edges: Edge[]): Edge[] => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const collapsedParents = new Map(
+    nodes.filter((node) => isInCollapsedGroup(node, nodesById)).map((node) => [node.id, node.parentId as string])
+  );
+  if (collapsedParents.size === 0) {
+    return edges;
+  }
+
+  return edges.flatMap((edge) => {
+    const source = collapsedParents.get(edge.source);
+    const target = collapsedParents.get(edge.target);
+    if (!source && !target) {
+      return [edge];
+    }
+    if (source && source === target) {
+      return [];
+    }
+    return [{
+      ...edge,
+      source: source ?? edge.source,
+      sourceHandle: source ? COLLAPSED_GROUP_HANDLE_ID : edge.sourceHandle,
+      target: target ?? edge.target,
+      targetHandle: target ? null : edge.targetHandle,
+      className: 'rerouted-edge',
+    }];
+  });
+};
@@ -0,0 +1,75 @@
+import type { ConditionRule } from './conditions';
+import { describeRule } from './conditions';
+import type { QuickReplyButton } from './quick-replies';
+import type { StartTrigger } from './start';
+import { describeTrigger } from './start';
+import type { SubflowExit } from './subflows';
+
+export interface SourceHandleInfo {
+  /** `null` for the default (unnamed) handle of single-output nodes */
+  id: string | null;
+  label: string;
+}
+
+export const ELSE_HANDLE_ID = 'else';
+export const VALID_HANDLE_ID = 'valid';
+export const INVALID_HANDLE_ID = 'invalid';
+
+interface NodeLike {
+  type?: string;
+  data: unknown;
+}
+
+/**
+ * Lists the source handles a node renders, in display order.
+ * Each handle can carry at most one outgoing edge.
+ */
+export const getSourceHandles = (node: NodeLike): SourceHandleInfo[] => {
+  switch (node.type) {
+    case 'startNode': {
+      const triggers = ((node.data as { triggers?: StartTrigger[] }).triggers ?? []);
+      return [
+        { id: null, label: 'Default' },
+        ...triggers.map((trigger) => ({ id: trigger.id, label: describeTrigger(trigger) })),
+      ];
+    }
+    case 'conditionNode': {
+      const rules = ((node.data as { rules?: ConditionRule[] }).rules ?? []);
+      return [
+        ...rules.map((rule) => ({ id: rule.id, label: describeRule(rule) })),
+        { id: ELSE_HANDLE_ID, label: 'Else' },
+      ];
+    }
+    case 'buttonsNode': {
+      const buttons = ((node.data as { buttons?: QuickReplyButton[] }).buttons ?? []);
+      return buttons.map((button) => ({ id: button.id, label: button.title || 'Untitled button' }));
+    }
+    case 'questionNode':
+      return [
+        { id: VALID_HANDLE_ID, label: 'Valid answer' },
+        { id: INVALID_HANDLE_ID, label: 'Invalid after retries' },
+      ];
+    case 'subflowNode': {
+      // Called flows without declared exits return through a single default handle
+      const exits = ((node.data as { exits?: SubflowExit[] }).exits ?? []);
+      return exits.length > 0
+        ? exits.map((exit) => ({ id: exit.id, label: exit.label }))
+        : [{ id: null, label: 'Done' }];
+    }
+    case 'jumpNode':
+      // Execution continues at the jump target instead of along an edge
+      return [];
+    case 'noteNode':
+    case 'groupNode':
+      return [];
+    default:
+      return [{ id: null, label: 'Next' }];
+  }
+};
+
+/**
+ * Named handles are branches: each one represents a distinct outcome and is
+ * expected to be connected. The unnamed default handle may be left open.
+ */
+export const getBranchHandles = (node: NodeLike) =>
+  getSourceHandles(node).filter((handle) => handle.id !== null);
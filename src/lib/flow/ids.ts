@@ -0,0 +1,8 @@
+// Time-based prefix keeps ids roughly sortable; the random suffix avoids
+// collisions when several ids are created within the same millisecond.
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createNodeId = () => createId('node');
+
+export const createEdgeId = () => createId('edge');
@@ -0,0 +1,88 @@
+export const QUESTION_INPUT_TYPE_IDS = ['text', 'number', 'email', 'phone', 'date', 'yes_no', 'regex'] as const;
+
+export type QuestionInputType = (typeof QUESTION_INPUT_TYPE_IDS)[number];
+
+export const QUESTION_INPUT_TYPES: { id: QuestionInputType; label: string }[] = [
+  { id: 'text', label: 'Free text' },
+  { id: 'number', label: 'Number' },
+  { id: 'email', label: 'Email' },
+  { id: 'phone', label: 'Phone number' },
+  { id: 'date', label: 'Date' },
+  { id: 'yes_no', label: 'Yes / No' },
+  { id: 'regex', label: 'Custom pattern (regex)' },
+];
+
+export const getInputTypeLabel = (inputType: QuestionInputType) =>
+  QUESTION_INPUT_TYPES.find((entry) => entry.id === inputType)?.label ?? inputType;
+
+const YES_ANSWERS = ['yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'true'];
+const NO_ANSWERS = ['no', 'n', 'nope', 'false'];
+
+// A comma is read as the decimal separator ("2,5"). Before exactly three digits it
+// could just as well separate thousands ("1,000"), so such answers are rejected
+const DECIMAL_COMMA_PATTERN = /^[+-]?\d*,\d+$/;
+const THOUSANDS_PATTERN = /^[+-]?\d{1,3}(,\d{3})+$/;
+
+// Parsed as UTC midnight by `Date.parse`; other date formats are parsed as local time
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export interface AnswerCheck {
+  valid: boolean;
+  /** Normalized value to store in the target variable */
+  value: string;
+}
+
+/**
+ * Checks a user's answer against the expected input type.
+ * Custom patterns must match the whole answer; invalid patterns never match
+ * rather than throwing.
+ */
+export const validateAnswer = (inputType: QuestionInputType, answer: string, pattern = ''): AnswerCheck => {
+  const value = answer.trim();
+
+  switch (inputType) {
+    case 'number': {
+      if (value.includes(',')) {
+        const valid = DECIMAL_COMMA_PATTERN.test(value) && !THOUSANDS_PATTERN.test(value);
+        return { valid, value: valid ? value.replace(',', '.') : value };
+      }
+      return { valid: value !== '' && Number.isFinite(Number(value)), value };
+    }
+    case 'email':
+      return { valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value), value: value.toLowerCase() };
+    case 'phone': {
+      const digits = value.replace(/[\s().-]/g, '');
+      return { valid: /^\+?\d{6,15}$/.test(digits), value: digits };
+    }
+    case 'date': {
+      const timestamp = Date.parse(value);
+      if (value === '' || Number.isNaN(timestamp)) {
+        return { valid: false, value };
+      }
+      // Stored as YYYY-MM-DD, for the day the user wrote in whichever time zone they are
+      const date = new Date(timestamp);
+      return {
+        valid: true,
+        value: ISO_DATE_PATTERN.test(value)
+          ? date.toISOString().slice(0, 10)
+          : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      };
+    }
+    case 'yes_no': {
+      const lower = value.toLowerCase();
+      if (YES_ANSWERS.includes(lower)) return { valid: true, value: 'yes' };
+      if (NO_ANSWERS.includes(lower)) return { valid: true, value: 'no' };
+      return { valid: false, value };
+    }
+    case 'regex':
+      try {
+        return { valid: new RegExp(`^(?:${pattern})$`).test(value), value };
+      } catch {
+        return { valid: false, value };
+      }
+    default:
+      return { valid: value !== '', value };
+  }
+};
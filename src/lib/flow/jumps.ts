@@ -0,0 +1,37 @@
+export const JUMP_NODE_TYPE = 'jumpNode';
+
+interface NodeLike {
+  id?: string;
+  type?: string;
+  data?: unknown;
+}
+
+export const isJumpNode = (node: NodeLike) => node.type === JUMP_NODE_TYPE;
+
+/** Node a Jump node continues at; empty when none is chosen yet. */
+export const getJumpTargetId = (node: NodeLike) =>
+  isJumpNode(node) ? (node.data as { targetId?: string }).targetId ?? '' : '';
+
+/**
+ * Jumps as edges from the Jump node to its target, for graph checks that
+ * follow execution (reachability, loops). Jumps to missing nodes or to
+ * themselves are left out.
+ */
+export const getJumpEdges = (nodes: NodeLike[]) => {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  return nodes
+    .filter((node) => nodeIds.has(getJumpTargetId(node)) && getJumpTargetId(node) !== node.id)
+    .map((node) => ({ source: node.id ?? '', target: getJumpTargetId(node), sourceHandle: null }));
+};
+
+/** Ids of the Jump nodes leading to each node, in node order. */
+export const getJumpSourcesByTarget = (nodes: NodeLike[]) => {
+  const sources = new Map<string, string[]>();
+  nodes.forEach((node) => {
+    const targetId = getJumpTargetId(node);
+    if (targetId && node.id) {
+      sources.set(targetId, [...(sources.get(targetId) ?? []), node.id]);
+    }
+  });
+  return sources;
+};
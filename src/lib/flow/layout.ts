@@ -0,0 +1,164 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { getSourceHandles } from './handles';
+import { getNodesBounds } from './clone';
+import { getNodeSize } from './placement';
+import { isStartNode } from './start';
+
+/**
+ * Layered auto layout
+ *
+ * Arranges nodes left to right in layers that follow edge direction:
+ * 1. Cycles are broken by ignoring edges that point back to a node on the
+ *    current DFS path (loops are drawn as back edges).
+ * 2. Each node goes one layer after its furthest predecessor.
+ * 3. Within a layer, nodes are ordered by their parents' order and the index
+ *    of the source handle they hang off, so branches keep their handle order.
+ * 4. Nodes are spaced by their measured size and centered on their parents.
+ */
+
+export interface LayoutOptions {
+  /** Horizontal space between layers */
+  layerGap?: number;
+  /** Vertical space between nodes of the same layer */
+  nodeGap?: number;
+}
+
+/**
+ * Computes new positions for `nodes`. Only edges between these nodes are
+ * considered, so a selection can be laid out on its own. The result keeps the
+ * top-left corner of the nodes' current bounds.
+ */
+export const layoutNodes = (
+  nodes: Node[],
+  edges: Edge[],
+  { layerGap = 120, nodeGap = 40 }: LayoutOptions = {}
+): Map<string, XYPosition> => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const innerEdges = edges.filter((edge) => nodesById.has(edge.source) && nodesById.has(edge.target));
+
+  // Outgoing edges in handle order, so DFS visits branches top to bottom
+  const handleIndex = (edge: Edge) => {
+    const handles = getSourceHandles(nodesById.get(edge.source)!);
+    const index = handles.findIndex((handle) => handle.id === (edge.sourceHandle ?? null));
+    return { index: index === -1 ? handles.length : index, count: handles.length };
+  };
+  const outgoing = new Map<string, Edge[]>(nodes.map((node) => [node.id, []]));
+  innerEdges.forEach((edge) => outgoing.get(edge.source)!.push(edge));
+  outgoing.forEach((list) => list.sort((a, b) => handleIndex(a).index - handleIndex(b).index));
+
+  // 1. DFS from the Start node, then roots, then anything left; back edges are ignored
+  const hasIncoming = new Set(innerEdges.map((edge) => edge.target));
+  const roots = [
+    ...nodes.filter(isStartNode),
+    ...nodes.filter((node) => !isStartNode(node) && !hasIncoming.has(node.id)),
+    ...nodes,
+  ];
+  const visitOrder = new Map<string, number>();
+  const onPath = new Set<string>();
+  const forwardEdges: Edge[] = [];
+
+  const visit = (nodeId: string) => {
+    visitOrder.set(nodeId, visitOrder.size);
+    onPath.add(nodeId);
+    outgoing.get(nodeId)!.forEach((edge) => {
+      if (onPath.has(edge.target)) {
+        return;
+      }
+      forwardEdges.push(edge);
+      if (!visitOrder.has(edge.target)) {
+        visit(edge.target);
+      }
+    });
+    onPath.delete(nodeId);
+  };
+  roots.forEach((node) => {
+    if (!visitOrder.has(node.id)) {
+      visit(node.id);
+    }
+  });
+
+  // 2. Longest-path layering over the acyclic edges
+  const incoming = new Map<string, Edge[]>(nodes.map((node) => [node.id, []]));
+  forwardEdges.forEach((edge) => incoming.get(edge.target)!.push(edge));
+  const layerOf = new Map<string, number>();
+  const getLayer = (nodeId: string): number => {
+    if (!layerOf.has(nodeId)) {
+      const parents = incoming.get(nodeId)!;
+      layerOf.set(nodeId, parents.length === 0 ? 0 : Math.max(...parents.map((edge) => getLayer(edge.source))) + 1);
+    }
+    return layerOf.get(nodeId)!;
+  };
+  nodes.forEach((node) => getLayer(node.id));
+
+  const layers: string[][] = [];
+  [...nodes]
+    .sort((a, b) => visitOrder.get(a.id)! - visitOrder.get(b.id)!)
+    .forEach((node) => {
+      const layer = layerOf.get(node.id)!;
+      (layers[layer] ??= []).push(node.id);
+    });
+
+  // 3. Order each layer by parent order plus handle index
+  const rankInLayer = new Map<string, number>();
+  layers.forEach((layer, layerIndex) => {
+    if (layerIndex > 0) {
+      const sortKey = (nodeId: string) => {
+        const parents = incoming.get(nodeId)!;
+        if (parents.length === 0) {
+          return Infinity;
+        }
+        const keys = parents.map((edge) => {
+          const { index, count } = handleIndex(edge);
+          return (rankInLayer.get(edge.source) ?? 0) + (index + 1) / (count + 2);
+        });
+        return keys.reduce((sum, key) => sum + key, 0) / keys.length;
+      };
+      const keys = new Map(layer.map((nodeId) => [nodeId, sortKey(nodeId)]));
+      layer.sort((a, b) => keys.get(a)! - keys.get(b)! || visitOrder.get(a)! - visitOrder.get(b)!);
+    }
+    layer.forEach((nodeId, rank) => rankInLayer.set(nodeId, rank));
+  });
+
+  // 4. Coordinates: layers side by side, nodes centered on their parents without overlapping
+  const positions = new Map<string, XYPosition>();
+  let layerX = 0;
+  layers.forEach((layer) => {
+    const sizes = layer.map((nodeId) => getNodeSize(nodesById.get(nodeId)!));
+    const desired = layer.map((nodeId, index) => {
+      const parents = incoming.get(nodeId)!.filter((edge) => positions.has(edge.source));
+      if (parents.length === 0) {
+        return null;
+      }
+      const centers = parents.map((edge) => {
+        const parentPosition = positions.get(edge.source)!;
+        return parentPosition.y + getNodeSize(nodesById.get(edge.source)!).height / 2;
+      });
+      return centers.reduce((sum, center) => sum + center, 0) / centers.length - sizes[index].height / 2;
+    });
+
+    // Stack top to bottom, moving nodes down where they would overlap
+    const ys: number[] = [];
+    layer.forEach((_, index) => {
+      const minY = index === 0 ? -Infinity : ys[index - 1] + sizes[index - 1].height + nodeGap;
+      const fallback = index === 0 ? 0 : minY;
+      ys.push(Math.max(desired[index] ?? fallback, minY));
+    });
+
+    // Shift the whole layer so nodes are, on average, as close to their parents as possible
+    const offsets = desired.flatMap((value, index) => (value === null ? [] : [value - ys[index]]));
+    const shift = offsets.length > 0 ? offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length : 0;
+
+    layer.forEach((nodeId, index) => positions.set(nodeId, { x: layerX, y: ys[index] + shift }));
+    layerX += Math.max(...sizes.map((size) => size.width)) + layerGap;
+  });
+
+  // Keep the laid out nodes where they were
+  const before = getNodesBounds(nodes);
+  const after = getNodesBounds(nodes.map((node) => ({ ...node, position: positions.get(node.id)! })));
+  if (before && after) {
+    positions.forEach((position, nodeId) =>
+      positions.set(nodeId, { x: position.x + before.x - after.x, y: position.y + before.y - after.y })
+    );
+  }
+  return positions;
+};
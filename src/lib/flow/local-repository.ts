@@ -0,0 +1,57 @@
+import { parseFlowDocument, type FlowDocument } from './document';
+import { byLastEdited, type FlowRepository } from './repository';
+
+const STORAGE_PREFIX = 'chatbot-flow-builder:flow:';
+
+/**
+ * Browser-local repository backed by `localStorage`.
+ * Used when no remote API is configured.
+ */
+export const createLocalFlowRepository = (
+  storage: Storage = window.localStorage
+): FlowRepository => ({
+  list: async () => {
+    const documents: FlowDocument[] = [];
+    for (let index = 0; index < storage.length; index++) {
+      const key = storage.key(index);
+      if (!key?.startsWith(STORAGE_PREFIX)) {
+        continue;
+      }
+      // Unreadable entries are left out of the list rather than failing it;
+      // opening them still reports the error
+      try {
+        documents.push(parseFlowDocument(JSON.parse(storage.getItem(key) ?? '')));
+      } catch {
+        continue;
+      }
+    }
+    return documents.sort(byLastEdited);
+  },
+
+  load: async (id) => {
+    const raw = storage.getItem(`${STORAGE_PREFIX}${id}`);
+    if (raw === null) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error(`Stored flow "${id}" is corrupted and could not be read.`);
+    }
+    return parseFlowDocument(parsed);
+  },
+
+  save: async (document) => {
+    try {
+      storage.setItem(`${STORAGE_PREFIX}${document.id}`, JSON.stringify(document));
+    } catch {
+      throw new Error('Browser storage is full or unavailable.');
+    }
+  },
+
+  remove: async (id) => {
+    storage.removeItem(`${STORAGE_PREFIX}${id}`);
+  },
+});
@@ -0,0 +1,37 @@
+export const MEDIA_TYPE_IDS = ['image', 'video', 'audio', 'document'] as const;
+
+export type MediaType = (typeof MEDIA_TYPE_IDS)[number];
+
+export const MEDIA_TYPES: { id: MediaType; label: string }[] = [
+  { id: 'image', label: 'Image' },
+  { id: 'video', label: 'Video' },
+  { id: 'audio', label: 'Audio' },
+  { id: 'document', label: 'Document' },
+];
+
+/** A file sent with a Message node; the message text becomes its caption. */
+export interface MessageMedia {
+  type: MediaType;
+  /** Public URL the file is fetched from when the message is sent */
+  url: string;
+}
+
+/**
+ * Whether a media URL is a web address (http or https). Only these are
+ * fetched or linked; anything else (e.g. `javascript:` or `data:` URLs from
+ * an imported flow) could run script in the page.
+ */
+export const isWebUrl = (url: string) => /^https?:\/\/\S+$/i.test(url.trim());
+
+export const getMediaTypeLabel = (type: MediaType) => MEDIA_TYPES.find((entry) => entry.id === type)?.label ?? type;
+
+/** The file name at the end of a media URL, for showing attachments compactly. */
+export const getMediaFileName = (url: string) => {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, '');
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(name) || url;
+  } catch {
+    return name || url;
+  }
+};
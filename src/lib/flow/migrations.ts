@@ -0,0 +1,110 @@
+/**
+ * FlowDocument migrations
+ *
+ * Each entry upgrades a raw document from version `index` to `index + 1`.
+ * Migrations operate on untyped JSON: they run before schema validation and
+ * must tolerate whatever older builds wrote. Never edit a released migration;
+ * append a new one and the current schema version follows automatically.
+ */
+
+type RawDocument = Record<string, unknown>;
+type Migration = (document: RawDocument) => RawDocument;
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// v0 -> v1: the original `StoredFlow` shape ({ id, nodes, edges, viewport, updatedAt })
+// written before documents were versioned.
+const migrateV0ToV1: Migration = (document) => {
+  const updatedAt = typeof document.updatedAt === 'string' ? document.updatedAt : new Date().toISOString();
+
+  return {
+    id: document.id,
+    name: 'Untitled flow',
+    schemaVersion: 1,
+    nodes: asArray(document.nodes).map((node) =>
+      isRecord(node)
+        ? { id: node.id, type: node.type ?? 'textNode', position: node.position, data: node.data }
+        : node
+    ),
+    edges: asArray(document.edges).map((edge) =>
+      isRecord(edge)
+        ? {
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            sourceHandle: edge.sourceHandle ?? null,
+            targetHandle: edge.targetHandle ?? null,
+          }
+        : edge
+    ),
+    variables: [],
+    metadata: {
+      createdAt: updatedAt,
+      updatedAt,
+      viewport: document.viewport ?? { x: 0, y: 0, zoom: 1 },
+    },
+  };
+};
+
+// v1 -> v2: the entry point used to be implied ("the node without incoming
+// edges"). Make it explicit with a Start node connected to that node.
+const migrateV1ToV2: Migration = (document) => {
+  const nodes = asArray(document.nodes);
+  const edges = asArray(document.edges);
+  if (nodes.some((node) => isRecord(node) && node.type === 'startNode')) {
+    return { ...document, schemaVersion: 2 };
+  }
+
+  const nodeIds = new Set(nodes.map((node) => (isRecord(node) ? node.id : undefined)));
+  let startId = 'start';
+  for (let suffix = 1; nodeIds.has(startId); suffix++) {
+    startId = `start-${suffix}`;
+  }
+
+  const entry = (nodes.find(
+    (node) => isRecord(node) && !edges.some((edge) => isRecord(edge) && edge.target === node.id)
+  ) ?? nodes[0]) as RawDocument | undefined;
+  const entryPosition = isRecord(entry?.position) ? entry.position : undefined;
+  const position = entryPosition && typeof entryPosition.x === 'number' && typeof entryPosition.y === 'number'
+    ? { x: entryPosition.x - 300, y: entryPosition.y }
+    : { x: 0, y: 0 };
+
+  return {
+    ...document,
+    schemaVersion: 2,
+    nodes: [{ id: startId, type: 'startNode', position, data: { label: 'Start', triggers: [] } }, ...nodes],
+    edges: entry
+      ? [
+          { id: `${startId}-edge`, source: startId, target: entry.id, sourceHandle: null, targetHandle: null },
+          ...edges,
+        ]
+      : edges,
+  };
+};
+
+const migrations: Migration[] = [migrateV0ToV1, migrateV1ToV2];
+
+export const CURRENT_SCHEMA_VERSION = migrations.length;
+
+/** Reads the version a raw document claims; unversioned documents are v0. */
+export const getSchemaVersion = (input: unknown): number =>
+  isRecord(input) && typeof input.schemaVersion === 'number' ? input.schemaVersion : 0;
+
+/**
+ * Upgrades a raw document to `CURRENT_SCHEMA_VERSION`.
+ * Non-object input is returned untouched so validation can report it.
+ */
+export const migrateFlowDocument = (input: unknown): unknown => {
+  if (!isRecord(input)) {
+    return input;
+  }
+
+  let document = input;
+  for (let version = getSchemaVersion(input); version < CURRENT_SCHEMA_VERSION; version++) {
+    document = migrations[version](document);
+  }
+  return document;
+};
@@ -0,0 +1,134 @@
+import type { Edge, Node } from '@xyflow/react';
+import { getSourceHandles } from './handles';
+import { getJumpTargetId } from './jumps';
+import { getNodeLabel, getNodeTexts } from './search';
+
+/**
+ * Keyboard navigation
+ *
+ * Arrow keys move the selection along the flow: right to the next node,
+ * left back to the previous one, and up/down between the nodes that follow
+ * the same node (e.g. the branches of a condition). Jumps count as
+ * connections, as they do for reachability.
+ *
+ * Also names nodes and connections for screen readers, since the canvas is
+ * otherwise only understandable by looking at it.
+ */
+
+export type NavigationDirection = 'next' | 'previous' | 'up' | 'down';
+
+/** Nodes following `node`, in the order of its source handles; a Jump node's target last. */
+export const getNextNodeIds = (node: Node, nodes: Node[], edges: Edge[]) => {
+  const nodeIds = new Set(nodes.map((candidate) => candidate.id));
+  const byHandle = getSourceHandles(node).flatMap((handle) =>
+    edges
+      .filter((edge) => edge.source === node.id && (edge.sourceHandle ?? null) === handle.id)
+      .map((edge) => edge.target)
+  );
+  const jumpTarget = getJumpTargetId(node);
+  return [...byHandle, ...(jumpTarget ? [jumpTarget] : [])].filter(
+    (id, index, ids) => nodeIds.has(id) && id !== node.id && ids.indexOf(id) === index
+  );
+};
+
+/** Nodes leading to `nodeId` through an edge or a jump, in node order. */
+export const getPreviousNodeIds = (nodeId: string, nodes: Node[], edges: Edge[]) =>
+  nodes
+    .filter(
+      (node) =>
+        node.id !== nodeId &&
+        (getJumpTargetId(node) === nodeId || edges.some((edge) => edge.source === node.id && edge.target === nodeId))
+    )
+    .map((node) => node.id);
+
+/**
+ * The node to move to from `currentId`. `parentId` is the node the selection
+ * came from, so going back and moving between siblings stay on the path
+ * taken; otherwise the first previous node is used. Returns the node to
+ * select and the parent to remember for the next step.
+ */
+export const getNavigationTarget = (
+  nodes: Node[],
+  edges: Edge[],
+  currentId: string,
+  direction: NavigationDirection,
+  parentId?: string
+): { nodeId: string; parentId?: string } | undefined => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const current = nodesById.get(currentId);
+  if (!current) {
+    return undefined;
+  }
+
+  const previousIds = getPreviousNodeIds(currentId, nodes, edges);
+  const parent = parentId && previousIds.includes(parentId) ? parentId : previousIds[0];
+
+  if (direction === 'next') {
+    const nextId = getNextNodeIds(current, nodes, edges)[0];
+    return nextId ? { nodeId: nextId, parentId: currentId } : undefined;
+  }
+  if (!parent) {
+    return undefined;
+  }
+  if (direction === 'previous') {
+    return { nodeId: parent, parentId: getPreviousNodeIds(parent, nodes, edges)[0] };
+  }
+
+  const siblings = getNextNodeIds(nodesById.get(parent)!, nodes, edges);
+  if (siblings.length < 2) {
+    return undefined;
+  }
+  const index = siblings.indexOf(currentId);
+  const step = direction === 'down' ? 1 : -1;
+  return { nodeId: siblings[(index + step + siblings.length) % siblings.length], parentId: parent };
+};
+
+// Node types as read out by screen readers
+const NODE_TYPE_NAMES: Record<string, string> = {
+  startNode: 'Start',
+  textNode: 'Message',
+  buttonsNode: 'Quick replies',
+  questionNode: 'Question',
+  conditionNode: 'Condition',
+  subflowNode: 'Sub-flow',
+  jumpNode: 'Jump',
+  noteNode: 'Note',
+  groupNode: 'Frame',
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** A short name for a node: its label, else the first line of its text (notes), else its id. */
+export const getNodeName = (node: Node) =>
+  getNodeLabel(node) || getNodeTexts(node)[0]?.split('\n')[0] || node.id;
+
+/**
+ * What screen readers say for a node on the canvas: its type and name, how
+ * many of its outputs are connected and how many problems it has, e.g.
+ * "Condition: Check age, 1 of 2 outputs connected, 1 problem".
+ */
+export const describeNode = (node: Node, edges: Edge[], problemCount = 0) => {
+  const parts = [`${NODE_TYPE_NAMES[node.type ?? ''] ?? 'Node'}: ${getNodeName(node)}`];
+  const handles = getSourceHandles(node);
+  if (handles.length > 0) {
+    const connected = handles.filter((handle) =>
+      edges.some((edge) => edge.source === node.id && (edge.sourceHandle ?? null) === handle.id)
+    ).length;
+    parts.push(`${connected} of ${plural(handles.length, 'output')} connected`);
+  }
+  if (problemCount > 0) {
+    parts.push(plural(problemCount, 'problem'));
+  }
+  return parts.join(', ');
+};
+
+/** What screen readers say for a connection, naming the output when the source has several. */
+export const describeConnection = (edge: Edge, nodesById: Map<string, Node>) => {
+  const source = nodesById.get(edge.source);
+  const target = nodesById.get(edge.target);
+  const handles = source ? getSourceHandles(source) : [];
+  const output = handles.length > 1 ? handles.find((handle) => handle.id === (edge.sourceHandle ?? null)) : undefined;
+  return `Connection from ${source ? getNodeName(source) : edge.source}${output ? ` (${output.label})` : ''} to ${
+    target ? getNodeName(target) : edge.target
+  }`;
+};
@@ -0,0 +1,46 @@
+import { createId } from './ids';
+import { DEFAULT_GROUP_SIZE } from './groups';
+import { DEFAULT_NOTE_SIZE } from './notes';
+
+/** Initial data for a node freshly added from the Nodes Panel. */
+export const createDefaultNodeData = (type: string): Record<string, unknown> => {
+  switch (type) {
+    case 'startNode':
+      return { label: 'Start', triggers: [] };
+    case 'textNode':
+      return { text: 'Click to edit this message...', label: 'Message' };
+    case 'conditionNode':
+      return {
+        label: 'Condition',
+        rules: [{ id: createId('rule'), variable: '', operator: 'equals', value: '' }],
+      };
+    case 'buttonsNode':
+      return {
+        label: 'Quick Replies',
+        text: 'How can I help you today?',
+        buttons: [
+          { id: createId('button'), title: 'Option 1', payload: 'option_1' },
+          { id: createId('button'), title: 'Option 2', payload: 'option_2' },
+        ],
+      };
+    case 'questionNode':
+      return {
+        label: 'Question',
+        text: 'What is your name?',
+        inputType: 'text',
+        variable: 'user.name',
+        retryMessage: "Sorry, I didn't get that. Could you try again?",
+        maxRetries: 2,
+      };
+    case 'subflowNode':
+      return { label: 'Sub-flow', flowId: '', inputs: [], outputs: [], exits: [] };
+    case 'jumpNode':
+      return { label: 'Jump', targetId: '' };
+    case 'noteNode':
+      return { text: '', color: 'yellow', ...DEFAULT_NOTE_SIZE };
+    case 'groupNode':
+      return { label: 'Section', color: 'gray', ...DEFAULT_GROUP_SIZE, collapsed: false };
+    default:
+      return { text: '', label: 'Node' };
+  }
+};
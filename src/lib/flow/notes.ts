@@ -0,0 +1,23 @@
+export const NOTE_NODE_TYPE = 'noteNode';
+
+export const NOTE_COLOR_IDS = ['yellow', 'blue', 'green', 'pink', 'gray'] as const;
+
+export type NoteColor = (typeof NOTE_COLOR_IDS)[number];
+
+export const NOTE_COLORS: { id: NoteColor; label: string }[] = [
+  { id: 'yellow', label: 'Yellow' },
+  { id: 'blue', label: 'Blue' },
+  { id: 'green', label: 'Green' },
+  { id: 'pink', label: 'Pink' },
+  { id: 'gray', label: 'Gray' },
+];
+
+export const DEFAULT_NOTE_SIZE = { width: 240, height: 160 };
+export const MIN_NOTE_SIZE = { width: 160, height: 80 };
+
+interface NodeLike {
+  type?: string;
+}
+
+/** Sticky notes; like frames, they are annotations (see `annotations.ts`). */
+export const isNoteNode = (node: NodeLike) => node.type === NOTE_NODE_TYPE;
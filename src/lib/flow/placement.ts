@@ -0,0 +1,70 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { getSourceHandles } from './handles';
+
+/** Assumed size of nodes React Flow hasn't measured yet (e.g. nodes about to be added) */
+export const DEFAULT_NODE_SIZE = { width: 220, height: 100 };
+
+export const getNodeSize = (node: Node) => ({
+  width: node.measured?.width ?? node.width ?? DEFAULT_NODE_SIZE.width,
+  height: node.measured?.height ?? node.height ?? DEFAULT_NODE_SIZE.height,
+});
+
+// Horizontal distance between a node and one placed to its right
+const NEXT_NODE_GAP = 80;
+// Free space kept around placed nodes, and the search grid size
+const PLACEMENT_MARGIN = 20;
+const SEARCH_STEP = 40;
+const MAX_SEARCH_RINGS = 30;
+
+const overlaps = (position: XYPosition, size: { width: number; height: number }, node: Node) => {
+  const other = getNodeSize(node);
+  return (
+    position.x < node.position.x + other.width + PLACEMENT_MARGIN &&
+    position.x + size.width + PLACEMENT_MARGIN > node.position.x &&
+    position.y < node.position.y + other.height + PLACEMENT_MARGIN &&
+    position.y + size.height + PLACEMENT_MARGIN > node.position.y
+  );
+};
+
+/**
+ * Finds the free spot closest to `desired` for a node of `size`. Searches
+ * rings of grid points around it, preferring vertical moves so nodes stack
+ * in columns. Falls back to `desired` if everything nearby is taken.
+ */
+export const findFreePosition = (
+  desired: XYPosition,
+  nodes: Node[],
+  size: { width: number; height: number } = DEFAULT_NODE_SIZE
+): XYPosition => {
+  for (let ring = 0; ring <= MAX_SEARCH_RINGS; ring++) {
+    const candidates: { dx: number; dy: number }[] = [];
+    for (let dx = -ring; dx <= ring; dx++) {
+      for (let dy = -ring; dy <= ring; dy++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) === ring) {
+          candidates.push({ dx, dy });
+        }
+      }
+    }
+    candidates.sort((a, b) => Math.abs(a.dx) - Math.abs(b.dx) || Math.abs(a.dy) - Math.abs(b.dy) || b.dy - a.dy);
+
+    for (const { dx, dy } of candidates) {
+      const position = { x: desired.x + dx * SEARCH_STEP, y: desired.y + dy * SEARCH_STEP };
+      if (!nodes.some((node) => overlaps(position, size, node))) {
+        return position;
+      }
+    }
+  }
+  return desired;
+};
+
+/** Where a node following `node` goes by default: to its right, top-aligned. */
+export const getPositionRightOf = (node: Node): XYPosition => ({
+  x: node.position.x + getNodeSize(node).width + NEXT_NODE_GAP,
+  y: node.position.y,
+});
+
+/** First source handle of `node` without an outgoing edge, in display order. */
+export const getFreeSourceHandle = (node: Node, edges: Edge[]) =>
+  getSourceHandles(node).find(
+    (handle) => !edges.some((edge) => edge.source === node.id && (edge.sourceHandle ?? null) === handle.id)
+  );
@@ -0,0 +1,9 @@
+export interface QuickReplyButton {
+  /** Stable id, also used as the button's source handle id */
+  id: string;
+  title: string;
+  /** Value reported back when the button is pressed; defaults to the title */
+  payload: string;
+}
+
+export const MAX_QUICK_REPLIES = 10;
@@ -0,0 +1,26 @@
+import type { FlowDocument } from './document';
+
+/**
+ * FlowRepository
+ *
+ * Storage abstraction used by the builder to persist flows.
+ * Implementations may be synchronous under the hood (localStorage) or
+ * remote (REST); callers always go through the async interface.
+ *
+ * `load` runs stored data through `parseFlowDocument`, so documents written
+ * by older builds are migrated and invalid ones reject with a
+ * `FlowDocumentError`.
+ */
+export interface FlowRepository {
+  /** All stored flows, most recently edited first. Flows that fail validation are left out. */
+  list: () => Promise<FlowDocument[]>;
+  /** Resolves to `null` when no flow with the given id has been stored yet. */
+  load: (id: string) => Promise<FlowDocument | null>;
+  save: (document: FlowDocument) => Promise<void>;
+  /** Deleting a flow that does not exist is not an error. */
+  remove: (id: string) => Promise<void>;
+}
+
+/** Orders documents by last edit, newest first. */
+export const byLastEdited = (a: FlowDocument, b: FlowDocument) =>
+  b.metadata.updatedAt.localeCompare(a.metadata.updatedAt);
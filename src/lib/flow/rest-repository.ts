@@ -0,0 +1,79 @@
+import { parseFlowDocument } from './document';
+import { byLastEdited, type FlowRepository } from './repository';
+
+/**
+ * Repository talking to a REST backend.
+ *
+ * Expected endpoints:
+ * - GET    {baseUrl}/flows      -> FlowDocument[]
+ * - GET    {baseUrl}/flows/:id  -> FlowDocument (404 when missing)
+ * - PUT    {baseUrl}/flows/:id  <- FlowDocument
+ * - DELETE {baseUrl}/flows/:id  (404 is treated as already deleted)
+ */
+export const createRestFlowRepository = (
+  baseUrl: string,
+  fetcher: typeof fetch = fetch
+): FlowRepository => {
+  const flowsUrl = `${baseUrl.replace(/\/$/, '')}/flows`;
+  const flowUrl = (id: string) => `${flowsUrl}/${encodeURIComponent(id)}`;
+
+  return {
+    list: async () => {
+      const response = await fetcher(flowsUrl, {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to list flows (HTTP ${response.status}).`);
+      }
+
+      // Invalid documents are left out of the list rather than failing it, as in
+      // the local repository; opening them still reports the error
+      const documents: unknown[] = await response.json();
+      return documents
+        .flatMap((document) => {
+          try {
+            return [parseFlowDocument(document)];
+          } catch {
+            return [];
+          }
+        })
+        .sort(byLastEdited);
+    },
+
+    load: async (id) => {
+      const response = await fetcher(flowUrl(id), {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load flow "${id}" (HTTP ${response.status}).`);
+      }
+
+      return parseFlowDocument(await response.json());
+    },
+
+    save: async (document) => {
+      const response = await fetcher(flowUrl(document.id), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(document),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to save flow "${document.id}" (HTTP ${response.status}).`);
+      }
+    },
+
+    remove: async (id) => {
+      const response = await fetcher(flowUrl(id), { method: 'DELETE' });
+
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete flow "${id}" (HTTP ${response.status}).`);
+      }
+    },
+  };
+};
@@ -0,0 +1,316 @@
+import type { FlowDocument, FlowNode } from './document';
+import { withoutAnnotations } from './annotations';
+import { ConditionRule, evaluateRule } from './conditions';
+import { ELSE_HANDLE_ID, INVALID_HANDLE_ID, VALID_HANDLE_ID } from './handles';
+import { validateAnswer } from './input-validation';
+import type { MessageMedia } from './media';
+import { StartTrigger, TriggerInput, isStartNode, matchTrigger } from './start';
+import { VariableMapping, applyVariableMappings, isTerminalNode } from './subflows';
+import { interpolate } from './templates';
+
+/**
+ * FlowRuntime
+ *
+ * Headless execution engine for flow documents. It has no React or DOM
+ * dependencies and no hidden state: every call takes the current session and
+ * returns the next one together with the messages to deliver, so the same
+ * inputs always produce the same outputs. The preview and backends share
+ * these semantics.
+ *
+ * Sub-flow nodes run another flow with its own variables (its defaults plus
+ * the mapped inputs). When the called flow ends, the caller continues from
+ * the exit the called flow ended at, with the mapped outputs copied back.
+ */
+
+export type RuntimeEvent =
+  | { type: 'text'; text: string }
+  | { type: 'button'; buttonId: string };
+
+export type OutboundMessage =
+  | { type: 'text'; nodeId: string; text: string; media?: MessageMedia }
+  | { type: 'buttons'; nodeId: string; text: string; buttons: { id: string; title: string; payload: string }[] }
+  | { type: 'question'; nodeId: string; text: string }
+  | { type: 'retry'; nodeId: string; text: string }
+  | { type: 'notice'; text: string };
+
+// Sent after an invalid answer when the question has no retry message of its own
+export const DEFAULT_RETRY_MESSAGE = 'Please try again.';
+
+export type SessionStatus = 'running' | 'waiting' | 'ended';
+
+export type EndReason = 'completed' | 'loop_limit' | 'unsupported_node' | 'missing_flow' | 'call_depth';
+
+/** A Sub-flow call in progress */
+export interface CallFrame {
+  /** Flow containing the Sub-flow node */
+  flowId: string;
+  /** Sub-flow node the call returns to */
+  nodeId: string;
+  /** Caller's variables, restored when the call returns */
+  variables: Record<string, string>;
+}
+
+export interface FlowSession {
+  status: SessionStatus;
+  /** Flow the current node belongs to */
+  flowId: string;
+  /** Node waiting for input, or the last node executed once ended */
+  currentNodeId: string | null;
+  variables: Record<string, string>;
+  /** Invalid answers given to the current question */
+  retries: number;
+  /** Ids of executed nodes, in order */
+  history: string[];
+  /** Sub-flow calls in progress, outermost first */
+  callStack: CallFrame[];
+  endReason?: EndReason;
+}
+
+export interface RuntimeStep {
+  session: FlowSession;
+  messages: OutboundMessage[];
+}
+
+export interface StartOptions {
+  /** Start somewhere other than the flow's Start node */
+  fromNodeId?: string;
+  /** What opened the conversation; selects the matching Start trigger */
+  trigger?: TriggerInput;
+  /** Values merged over the document's variable defaults */
+  variables?: Record<string, string>;
+}
+
+export interface FlowRuntime {
+  start: (options?: StartOptions) => RuntimeStep;
+  send: (session: FlowSession, event: RuntimeEvent) => RuntimeStep;
+}
+
+export interface FlowRuntimeOptions {
+  /** Nodes executed in a row without user input before the run is stopped */
+  maxStepsWithoutInput?: number;
+  /** Looks up flows called by Sub-flow nodes; without it only self-calls resolve */
+  resolveFlow?: (flowId: string) => FlowDocument | undefined;
+  /** Nested Sub-flow calls allowed before the run is stopped */
+  maxCallDepth?: number;
+}
+
+const DEFAULT_MAX_STEPS_WITHOUT_INPUT = 100;
+const DEFAULT_MAX_CALL_DEPTH = 10;
+
+/** The node a conversation starts at. */
+export const findEntryNode = (document: FlowDocument): FlowNode | undefined =>
+  document.nodes.find(isStartNode);
+
+// Declared defaults of a document's variables
+const getDefaultVariables = (document: FlowDocument): Record<string, string> =>
+  Object.fromEntries(
+    document.variables
+      .filter((variable) => variable.defaultValue !== undefined)
+      .map((variable) => [variable.name, variable.defaultValue])
+  );
+
+export const createFlowRuntime = (
+  document: FlowDocument,
+  {
+    maxStepsWithoutInput = DEFAULT_MAX_STEPS_WITHOUT_INPUT,
+    resolveFlow,
+    maxCallDepth = DEFAULT_MAX_CALL_DEPTH,
+  }: FlowRuntimeOptions = {}
+): FlowRuntime => {
+  const flows = new Map<string, { document: FlowDocument; nodesById: Map<string, FlowNode> } | null>();
+
+  // Flows are resolved once and indexed on first use
+  const getFlow = (flowId: string) => {
+    if (!flows.has(flowId)) {
+      const flow = flowId === document.id ? document : resolveFlow?.(flowId);
+      // Notes and frames are never executed
+      flows.set(flowId, flow ? { document: flow, nodesById: new Map(withoutAnnotations(flow.nodes).map((node) => [node.id, node])) } : null);
+    }
+    return flows.get(flowId) ?? undefined;
+  };
+
+  const getNode = (flowId: string, nodeId: string | null) =>
+    nodeId ? getFlow(flowId)?.nodesById.get(nodeId) : undefined;
+
+  const findNextNodeId = (flowId: string, nodeId: string, handleId: string | null) =>
+    getFlow(flowId)?.document.edges.find(
+      (edge) => edge.source === nodeId && (edge.sourceHandle ?? null) === handleId
+    )?.target ?? null;
+
+  // Executes nodes from `nodeId` until one waits for input or the flow ends
+  const runFrom = (
+    session: FlowSession,
+    nodeId: string | null,
+    messages: OutboundMessage[],
+    trigger?: TriggerInput
+  ): RuntimeStep => {
+    let current: FlowSession = { ...session, status: 'running', retries: 0 };
+    let nextId = nodeId;
+
+    for (let step = 0; step < maxStepsWithoutInput; step++) {
+      const node = getNode(current.flowId, nextId);
+      if (!node) {
+        const frame = current.callStack[current.callStack.length - 1];
+        if (!frame) {
+          return { session: { ...current, status: 'ended', endReason: 'completed' }, messages };
+        }
+
+        // The called flow is over: return through the exit it ended at (or the default handle)
+        const lastNode = getNode(current.flowId, current.currentNodeId);
+        const exitId = lastNode && isTerminalNode(lastNode) ? lastNode.id : null;
+        const caller = getNode(frame.flowId, frame.nodeId);
+        const outputs = caller?.type === 'subflowNode' ? (caller.data.outputs as VariableMapping[]) : [];
+        current = {
+          ...current,
+          flowId: frame.flowId,
+          currentNodeId: frame.nodeId,
+          variables: { ...frame.variables, ...applyVariableMappings(outputs, current.variables) },
+          callStack: current.callStack.slice(0, -1),
+        };
+        nextId = findNextNodeId(frame.flowId, frame.nodeId, exitId);
+        continue;
+      }
+
+      current = { ...current, currentNodeId: node.id, history: [...current.history, node.id] };
+
+      switch (node.type) {
+        case 'startNode': {
+          // Unmatched triggers (and unconnected trigger branches) fall back to the default path
+          const matched = matchTrigger(node.data.triggers as StartTrigger[], trigger);
+          nextId = (matched && findNextNodeId(current.flowId, node.id, matched.id)) ?? findNextNodeId(current.flowId, node.id, null);
+          break;
+        }
+
+        case 'textNode':
+          messages.push({
+            type: 'text',
+            nodeId: node.id,
+            text: interpolate(node.data.text, current.variables),
+            ...(node.data.media && { media: node.data.media as MessageMedia }),
+          });
+          nextId = findNextNodeId(current.flowId, node.id, null);
+          break;
+
+        case 'buttonsNode':
+          messages.push({
+            type: 'buttons',
+            nodeId: node.id,
+            text: interpolate(node.data.text, current.variables),
+            buttons: node.data.buttons.map(({ id, title, payload }) => ({
+              id,
+              title: interpolate(title, current.variables),
+              payload,
+            })),
+          });
+          return { session: { ...current, status: 'waiting' }, messages };
+
+        case 'questionNode':
+          messages.push({ type: 'question', nodeId: node.id, text: interpolate(node.data.text, current.variables) });
+          return { session: { ...current, status: 'waiting' }, messages };
+
+        case 'conditionNode': {
+          const rules = node.data.rules as ConditionRule[];
+          const match = rules.find((rule) => evaluateRule(rule, current.variables));
+          nextId = findNextNodeId(current.flowId, node.id, match ? match.id : ELSE_HANDLE_ID);
+          break;
+        }
+
+        case 'jumpNode':
+          nextId = node.data.targetId || null;
+          break;
+
+        case 'subflowNode': {
+          const called = getFlow(node.data.flowId);
+          if (!called) {
+            return { session: { ...current, status: 'ended', endReason: 'missing_flow' }, messages };
+          }
+          if (current.callStack.length >= maxCallDepth) {
+            return { session: { ...current, status: 'ended', endReason: 'call_depth' }, messages };
+          }
+
+          const inputs = node.data.inputs as VariableMapping[];
+          current = {
+            ...current,
+            flowId: called.document.id,
+            currentNodeId: null,
+            variables: { ...getDefaultVariables(called.document), ...applyVariableMappings(inputs, current.variables) },
+            callStack: [...current.callStack, { flowId: current.flowId, nodeId: node.id, variables: current.variables }],
+          };
+          nextId = findEntryNode(called.document)?.id ?? null;
+          break;
+        }
+
+        default:
+          return { session: { ...current, status: 'ended', endReason: 'unsupported_node' }, messages };
+      }
+    }
+
+    return { session: { ...current, status: 'ended', endReason: 'loop_limit' }, messages };
+  };
+
+  const start = ({ fromNodeId, trigger, variables = {} }: StartOptions = {}): RuntimeStep => {
+    const session: FlowSession = {
+      status: 'running',
+      flowId: document.id,
+      currentNodeId: null,
+      variables: { ...getDefaultVariables(document), ...variables },
+      retries: 0,
+      history: [],
+      callStack: [],
+    };
+
+    return runFrom(session, fromNodeId ?? findEntryNode(document)?.id ?? null, [], trigger);
+  };
+
+  const send = (session: FlowSession, event: RuntimeEvent): RuntimeStep => {
+    const node = getNode(session.flowId, session.currentNodeId);
+    if (session.status !== 'waiting' || !node) {
+      return { session, messages: [] };
+    }
+
+    if (node.type === 'buttonsNode') {
+      const typed = event.type === 'text' ? event.text.trim().toLowerCase() : '';
+      const button = node.data.buttons.find((b) =>
+        event.type === 'button'
+          ? b.id === event.buttonId
+          : b.title.toLowerCase() === typed || b.payload.toLowerCase() === typed
+      );
+
+      if (!button) {
+        return { session, messages: [{ type: 'notice', text: 'Please choose one of the options.' }] };
+      }
+      return runFrom(session, findNextNodeId(session.flowId, node.id, button.id), []);
+    }
+
+    if (node.type === 'questionNode') {
+      const answer = event.type === 'text' ? event.text : '';
+      const check = validateAnswer(node.data.inputType, answer, node.data.pattern);
+
+      if (check.valid) {
+        const variables = node.data.variable
+          ? { ...session.variables, [node.data.variable]: check.value }
+          : session.variables;
+        return runFrom({ ...session, variables }, findNextNodeId(session.flowId, node.id, VALID_HANDLE_ID), []);
+      }
+
+      const retries = session.retries + 1;
+      if (retries > node.data.maxRetries) {
+        return runFrom(session, findNextNodeId(session.flowId, node.id, INVALID_HANDLE_ID), []);
+      }
+      return {
+        session: { ...session, retries },
+        messages: [
+          {
+            type: 'retry',
+            nodeId: node.id,
+            text: interpolate(node.data.retryMessage || DEFAULT_RETRY_MESSAGE, session.variables),
+          },
+        ],
+      };
+    }
+
+    return { session, messages: [] };
+  };
+
+  return { start, send };
+};
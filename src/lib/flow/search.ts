@@ -0,0 +1,175 @@
+interface NodeLike {
+  id?: string;
+  data?: unknown;
+}
+
+interface NodeTextData {
+  label?: string;
+  text?: string;
+  retryMessage?: string;
+  buttons?: { title?: string }[];
+}
+
+/** The node's label; notes have none. */
+export const getNodeLabel = (node: NodeLike) => (node.data as NodeTextData).label ?? '';
+
+/**
+ * Texts a node shows or sends, for finding nodes by their content: message
+ * and question texts, retry messages, button titles and note texts.
+ */
+export const getNodeTexts = (node: NodeLike) => {
+  const data = node.data as NodeTextData;
+  return [data.text, data.retryMessage, ...(data.buttons ?? []).map((button) => button.title)].filter(
+    (text): text is string => Boolean(text)
+  );
+};
+
+/** Node data fields covered by find and replace. */
+export const REPLACEABLE_FIELDS = ['label', 'text'] as const;
+
+export type ReplaceableField = (typeof REPLACEABLE_FIELDS)[number];
+
+export interface SearchOptions {
+  query: string;
+  matchCase: boolean;
+  wholeWord: boolean;
+  /** Treat the query as a regular expression; replacements can then use `$1`, `$<name>` and `$&` */
+  useRegex: boolean;
+}
+
+export interface SearchMatch {
+  nodeId: string;
+  field: ReplaceableField;
+  /** Offset of the match in the field's text */
+  index: number;
+  /** The matched text */
+  text: string;
+  /** Up to `CONTEXT_LENGTH` characters around the match, on one line */
+  before: string;
+  after: string;
+}
+
+// Characters of context shown on either side of a match
+const CONTEXT_LENGTH = 30;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The global pattern for a search, or an error message when the query is an
+ * invalid regular expression. An empty query matches nothing (`null`).
+ */
+export const buildSearchPattern = (options: SearchOptions): { pattern: RegExp | null; error?: string } => {
+  if (!options.query) {
+    return { pattern: null };
+  }
+  const source = options.useRegex ? options.query : escapeRegExp(options.query);
+  try {
+    return {
+      pattern: new RegExp(options.wholeWord ? `\\b(?:${source})\\b` : source, options.matchCase ? 'g' : 'gi'),
+    };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+};
+
+/** Matches of `pattern` in a text; empty matches (e.g. of `^` or `a*`) are skipped. */
+const execAll = (text: string, pattern: RegExp) =>
+  Array.from(text.matchAll(pattern)).filter((match) => match[0].length > 0);
+
+const getFieldText = (node: NodeLike, field: ReplaceableField) => {
+  const value = (node.data as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value : '';
+};
+
+const toSingleLine = (text: string) => text.replace(/\s+/g, ' ');
+
+/** Every match of `pattern` in the labels and texts of `nodes`, in node order. */
+export const findMatches = (nodes: NodeLike[], pattern: RegExp | null): SearchMatch[] => {
+  if (!pattern) {
+    return [];
+  }
+  return nodes.flatMap((node) =>
+    REPLACEABLE_FIELDS.flatMap((field) => {
+      const text = getFieldText(node, field);
+      return execAll(text, pattern).map((match) => {
+        const index = match.index ?? 0;
+        const end = index + match[0].length;
+        return {
+          nodeId: node.id ?? '',
+          field,
+          index,
+          text: match[0],
+          before: toSingleLine(text.slice(Math.max(0, index - CONTEXT_LENGTH), index)),
+          after: toSingleLine(text.slice(end, end + CONTEXT_LENGTH)),
+        };
+      });
+    })
+  );
+};
+
+/** Expands `$&`, `$1`…`$99`, `$<name>` and `$$` in a regex replacement, as `String.replace` does. */
+const expandReplacement = (replacement: string, match: RegExpMatchArray) =>
+  replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') {
+      return '$';
+    }
+    if (key === '&') {
+      return match[0];
+    }
+    if (name !== undefined) {
+      return match.groups?.[name] ?? '';
+    }
+    const group = Number(key);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+
+/**
+ * Replaces matches of `pattern` in a text: all of them, or only the one at
+ * `onlyIndex`. Plain searches insert `replacement` literally.
+ */
+export const replaceInText = (
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  useRegex: boolean,
+  onlyIndex?: number
+) => {
+  let result = '';
+  let last = 0;
+  execAll(text, pattern).forEach((match) => {
+    const index = match.index ?? 0;
+    if (onlyIndex !== undefined && index !== onlyIndex) {
+      return;
+    }
+    result += text.slice(last, index) + (useRegex ? expandReplacement(replacement, match) : replacement);
+    last = index + match[0].length;
+  });
+  return result + text.slice(last);
+};
+
+/**
+ * Node data changes for replacing every match of `pattern` in `nodes`, or
+ * only the match `only`, keyed by node id. Nodes without changes are left out.
+ */
+export const getReplacements = (
+  nodes: NodeLike[],
+  pattern: RegExp,
+  replacement: string,
+  useRegex: boolean,
+  only?: SearchMatch
+) => {
+  const changes = new Map<string, Partial<Record<ReplaceableField, string>>>();
+  nodes.forEach((node) => {
+    REPLACEABLE_FIELDS.forEach((field) => {
+      if (!node.id || (only && (only.nodeId !== node.id || only.field !== field))) {
+        return;
+      }
+      const text = getFieldText(node, field);
+      const next = replaceInText(text, pattern, replacement, useRegex, only?.index);
+      if (next !== text) {
+        changes.set(node.id, { ...changes.get(node.id), [field]: next });
+      }
+    });
+  });
+  return changes;
+};
@@ -0,0 +1,106 @@
+export const START_NODE_TYPE = 'startNode';
+export const START_NODE_ID = 'start';
+
+export const START_TRIGGER_TYPE_IDS = ['keyword', 'intent', 'deep_link'] as const;
+
+export type StartTriggerType = (typeof START_TRIGGER_TYPE_IDS)[number];
+
+export interface StartTrigger {
+  /** Stable id, also used as the trigger's source handle id */
+  id: string;
+  type: StartTriggerType;
+  value: string;
+}
+
+/** What opened a conversation, as reported by the channel */
+export interface TriggerInput {
+  type: StartTriggerType;
+  value: string;
+}
+
+export const START_TRIGGER_TYPES: { id: StartTriggerType; label: string; placeholder: string }[] = [
+  { id: 'keyword', label: 'Keyword', placeholder: 'e.g. pricing' },
+  { id: 'intent', label: 'Intent', placeholder: 'e.g. order.status' },
+  { id: 'deep_link', label: 'Deep link', placeholder: 'e.g. summer_promo' },
+];
+
+interface NodeLike {
+  type?: string;
+}
+
+interface EdgeLike {
+  source: string;
+  target: string;
+}
+
+export const isStartNode = (node: NodeLike) => node.type === START_NODE_TYPE;
+
+/** Human readable summary, e.g. `Keyword: pricing` */
+export const describeTrigger = (trigger: StartTrigger) => {
+  const type = START_TRIGGER_TYPES.find((entry) => entry.id === trigger.type)?.label ?? trigger.type;
+  return `${type}: ${trigger.value || '(empty)'}`;
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Lower-cased words separated by single spaces, padded so whole-word checks are plain `includes`
+const toWordString = (value: string) => ` ${normalize(value).split(/[^\p{L}\p{N}_]+/u).filter(Boolean).join(' ')} `;
+
+/**
+ * Finds the trigger that opened a conversation. Keywords match as whole
+ * words anywhere in the first message; intents and deep-link payloads must
+ * match exactly. Comparisons are case-insensitive.
+ */
+export const matchTrigger = (triggers: StartTrigger[], input: TriggerInput | undefined) => {
+  if (!input) {
+    return undefined;
+  }
+
+  const value = normalize(input.value);
+  return triggers.find((trigger) => {
+    const expected = normalize(trigger.value);
+    if (trigger.type !== input.type || !expected) {
+      return false;
+    }
+    if (trigger.type === 'keyword') {
+      return toWordString(value).includes(toWordString(expected));
+    }
+    return value === expected;
+  });
+};
+
+/** Ids of every node a conversation can reach from the Start node. */
+export const getReachableNodeIds = (nodes: (NodeLike & { id: string })[], edges: EdgeLike[]) => {
+  const start = nodes.find(isStartNode);
+  const reachable = new Set<string>();
+  const queue = start ? [start.id] : [];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string;
+    if (reachable.has(nodeId)) {
+      continue;
+    }
+    reachable.add(nodeId);
+    edges.forEach((edge) => {
+      if (edge.source === nodeId && !reachable.has(edge.target)) {
+        queue.push(edge.target);
+      }
+    });
+  }
+  return reachable;
+};
+
+/**
+ * Drops the Start node and its outgoing edges, e.g. when merging another
+ * flow into one that already has an entry point.
+ */
+export const withoutStartNode = <N extends NodeLike & { id?: string }, E extends { source?: string }>(
+  nodes: N[],
+  edges: E[]
+) => {
+  const startIds = new Set(nodes.filter(isStartNode).map((node) => node.id));
+  return {
+    nodes: nodes.filter((node) => !startIds.has(node.id)),
+    edges: edges.filter((edge) => !startIds.has(edge.source)),
+  };
+};
@@ -0,0 +1,110 @@
+export const SUBFLOW_NODE_TYPE = 'subflowNode';
+
+/**
+ * Copies one variable between caller and called flow: inputs copy a caller
+ * variable into the called flow when it starts, outputs copy a called-flow
+ * variable back into the caller when it returns.
+ */
+export interface VariableMapping {
+  id: string;
+  from: string;
+  to: string;
+}
+
+/** A way out of a called flow; the id is the ending node's id. */
+export interface SubflowExit {
+  id: string;
+  label: string;
+}
+
+interface NodeLike {
+  id?: string;
+  type?: string;
+  data?: unknown;
+}
+
+/** Flows a Sub-flow node can call, as far as call analysis is concerned. */
+export interface FlowLike {
+  id?: string;
+  name?: string;
+  nodes?: NodeLike[];
+}
+
+/** The flow being analyzed together with the other flows in its workspace. */
+export interface FlowWorkspace {
+  flowId: string;
+  flows: FlowLike[];
+}
+
+interface SubflowDataLike {
+  flowId?: string;
+  inputs?: VariableMapping[];
+  outputs?: VariableMapping[];
+}
+
+export const isSubflowNode = (node: { type?: string }) => node.type === SUBFLOW_NODE_TYPE;
+
+const getSubflowData = (node: { data?: unknown }) => node.data as SubflowDataLike;
+
+/**
+ * Nodes marked as the end of the conversation are expected to have no
+ * outgoing edge. In a flow called as a sub-flow they are its exit points.
+ */
+export const isTerminalNode = (node: { data?: unknown }) => (node.data as { terminal?: boolean }).terminal === true;
+
+/** Exit points a flow declares for its callers, in node order. */
+export const getFlowExits = (nodes: NodeLike[]): SubflowExit[] =>
+  nodes.filter(isTerminalNode).map((node) => ({
+    id: node.id ?? '',
+    label: (node.data as { label?: string }).label?.trim() || 'End',
+  }));
+
+/** Ids of the flows called by Sub-flow nodes, without blanks. */
+export const getCalledFlowIds = (nodes: NodeLike[]) =>
+  new Set(nodes.filter(isSubflowNode).map((node) => getSubflowData(node).flowId).filter((id): id is string => Boolean(id)));
+
+/** Caller variables read by a Sub-flow node's inputs. */
+export const getSubflowInputVariables = (node: { type?: string; data?: unknown }) =>
+  isSubflowNode(node) ? (getSubflowData(node).inputs ?? []).map((mapping) => mapping.from).filter(Boolean) : [];
+
+/** Caller variables written by a Sub-flow node's outputs. */
+export const getSubflowOutputVariables = (node: { type?: string; data?: unknown }) =>
+  isSubflowNode(node) ? (getSubflowData(node).outputs ?? []).map((mapping) => mapping.to).filter(Boolean) : [];
+
+/** Values for the `to` side of `mappings`; unset `from` variables are skipped. */
+export const applyVariableMappings = (mappings: VariableMapping[], source: Record<string, string>) =>
+  Object.fromEntries(
+    mappings
+      .filter((mapping) => mapping.from && mapping.to && source[mapping.from] !== undefined)
+      .map((mapping) => [mapping.to, source[mapping.from]])
+  );
+
+/**
+ * Follows sub-flow calls from `calledFlowId` and returns the chain of flow ids
+ * that leads back to `flowId` (starting with `calledFlowId`), or `null` when
+ * the call cannot recurse. Flows missing from the workspace end the search.
+ */
+export const findCallCycle = (calledFlowId: string, { flowId, flows }: FlowWorkspace): string[] | null => {
+  const flowsById = new Map(flows.map((flow) => [flow.id, flow]));
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === flowId) {
+      return path;
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+    visited.add(id);
+
+    for (const nextId of getCalledFlowIds(flowsById.get(id)?.nodes ?? [])) {
+      const cycle = visit(nextId, [...path, nextId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  return visit(calledFlowId, [calledFlowId]);
+};
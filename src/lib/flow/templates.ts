@@ -0,0 +1,70 @@
+/**
+ * Message templates
+ *
+ * Message text may contain placeholders such as `{{user.name}}` or
+ * `{{user.name | default:"there"}}`. The runtime replaces them with session
+ * variables; the builder renders them as chips and checks the names.
+ */
+
+export type TemplatePart =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; fallback?: string; raw: string };
+
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z_][\w.]*)\s*(?:\|\s*default\s*:\s*"((?:[^"\\]|\\.)*)"\s*)?\}\}/g;
+
+const unescape = (value: string) => value.replace(/\\(.)/g, '$1');
+
+/** Splits text into literal text and placeholders, in order. */
+export const parseTemplate = (text: string): TemplatePart[] => {
+  const parts: TemplatePart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TEMPLATE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+    parts.push({
+      type: 'variable',
+      name: match[1],
+      fallback: match[2] !== undefined ? unescape(match[2]) : undefined,
+      raw: match[0],
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+/** Names of the variables a template refers to, without duplicates. */
+export const getTemplateVariables = (text: string) => [
+  ...new Set(
+    parseTemplate(text).flatMap((part) => (part.type === 'variable' ? [part.name] : []))
+  ),
+];
+
+/**
+ * Replaces placeholders with variable values. Unset (or empty) variables use
+ * the placeholder's default, or nothing when it has none.
+ */
+export const interpolate = (text: string, variables: Record<string, string>) =>
+  parseTemplate(text)
+    .map((part) => {
+      if (part.type === 'text') {
+        return part.value;
+      }
+      const value = variables[part.name];
+      return value !== undefined && value !== '' ? value : part.fallback ?? '';
+    })
+    .join('');
+
+/** Texts of a node that may contain placeholders (messages, retry messages, button titles). */
+export const getNodeTemplates = (node: { data: unknown }) => {
+  const data = node.data as { text?: unknown; retryMessage?: unknown; buttons?: { title?: unknown }[] };
+  return [data.text, data.retryMessage, ...(data.buttons ?? []).map((button) => button.title)].filter(
+    (value): value is string => typeof value === 'string'
+  );
+};
@@ -0,0 +1,18 @@
+import type { Edge, Node } from '@xyflow/react';
+import { analyzeFlow } from './analysis';
+import type { FlowVariable } from './document';
+import type { FlowWorkspace } from './subflows';
+
+/**
+ * Save-time validation rules. Returns human readable errors; an empty list
+ * means the flow may be saved. Warnings from the analyzer don't block saving.
+ */
+export const validateFlow = (
+  nodes: Node[],
+  edges: Edge[],
+  variables: FlowVariable[] = [],
+  workspace?: FlowWorkspace
+): string[] =>
+  analyzeFlow(nodes, edges, variables, workspace)
+    .filter((diagnostic) => diagnostic.severity === 'error')
+    .map((diagnostic) => diagnostic.message);
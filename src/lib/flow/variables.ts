@@ -0,0 +1,60 @@
+import { getSubflowOutputVariables } from './subflows';
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.]*$/;
+
+export const VARIABLE_TYPE_IDS = ['string', 'number', 'boolean', 'date'] as const;
+export const VARIABLE_SCOPE_IDS = ['session', 'user', 'global'] as const;
+
+export type VariableType = (typeof VARIABLE_TYPE_IDS)[number];
+export type VariableScope = (typeof VARIABLE_SCOPE_IDS)[number];
+
+export const VARIABLE_SCOPES: { id: VariableScope; label: string; description: string }[] = [
+  { id: 'session', label: 'Session', description: 'Reset for every conversation' },
+  { id: 'user', label: 'User', description: 'Kept per user across conversations' },
+  { id: 'global', label: 'Global', description: 'Shared by every conversation' },
+];
+
+interface VariableLike {
+  name?: string;
+}
+
+interface NodeLike {
+  type?: string;
+  data?: unknown;
+}
+
+/**
+ * Variable names a flow can refer to: the registry plus the variables
+ * question nodes capture answers into and sub-flows return. Sorted for
+ * autocomplete.
+ */
+export const getKnownVariableNames = (variables: VariableLike[], nodes: NodeLike[]) => {
+  const names = new Set(
+    variables.map((variable) => variable.name).filter((name): name is string => Boolean(name))
+  );
+  nodes.forEach((node) => {
+    const captured = node.type === 'questionNode' ? (node.data as { variable?: string }).variable : undefined;
+    if (captured) {
+      names.add(captured);
+    }
+    getSubflowOutputVariables(node).forEach((name) => names.add(name));
+  });
+  return [...names].sort((a, b) => a.localeCompare(b));
+};
+
+/** Problem with a variable's name, or `null` when it is valid and unique. */
+export const getVariableNameError = (name: string, variables: VariableLike[]) => {
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    return 'Must start with a letter or underscore and contain only letters, digits, "_" or "."';
+  }
+  if (variables.filter((variable) => variable.name === name).length > 1) {
+    return 'Another variable has the same name';
+  }
+  return null;
+};
+
+/** Adds incoming variables to a registry; existing names keep their definition. */
+export const mergeVariables = <V extends VariableLike>(current: V[], incoming: V[]) => [
+  ...current,
+  ...incoming.filter((variable) => !current.some((existing) => existing.name === variable.name)),
+];
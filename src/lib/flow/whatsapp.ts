@@ -0,0 +1,412 @@
+import type { FlowDiagnostic } from './analysis';
+import { nodeName } from './analysis';
+import { withoutAnnotations } from './annotations';
+import type { ConditionRule } from './conditions';
+import type { FlowDocument } from './document';
+import { ELSE_HANDLE_ID, INVALID_HANDLE_ID, VALID_HANDLE_ID, getSourceHandles } from './handles';
+import type { QuestionInputType } from './input-validation';
+import { getJumpTargetId, isJumpNode } from './jumps';
+import type { MediaType, MessageMedia } from './media';
+import { getMediaFileName, isWebUrl } from './media';
+import type { QuickReplyButton } from './quick-replies';
+import { DEFAULT_RETRY_MESSAGE } from './runtime';
+import type { StartTrigger } from './start';
+import { isStartNode } from './start';
+import type { VariableMapping } from './subflows';
+
+/**
+ * WhatsApp export
+ *
+ * Compiles a flow into WhatsApp Cloud API message objects, one step per
+ * node, plus a transition table saying which step follows on which event.
+ * The bundle is what a WhatsApp deployment needs to run the flow: the bot
+ * sends a step's messages, then waits for the user (buttons, questions) or
+ * follows the step's transitions right away. `{{variable}}` placeholders are
+ * kept and filled in when sending, like the runtime does.
+ *
+ * Messages that WhatsApp would reject (too many buttons, titles or bodies
+ * that are too long) are reported as `channel_limit` diagnostics.
+ */
+
+/** Limits of the Cloud API for the messages the exporter produces. */
+export const WHATSAPP_LIMITS = {
+  textBody: 4096,
+  caption: 1024,
+  buttonBody: 1024,
+  listBody: 4096,
+  replyButtons: 3,
+  buttonTitle: 20,
+  listRows: 10,
+  rowTitle: 24,
+} as const;
+
+// Label of the button that opens a list message (at most 20 characters)
+const LIST_BUTTON_TEXT = 'Choose an option';
+
+// Media types that can carry a caption; audio is sent without one
+const CAPTIONED_MEDIA_TYPES = new Set<MediaType>(['image', 'video', 'document']);
+
+interface MessageBase {
+  messaging_product: 'whatsapp';
+  recipient_type: 'individual';
+}
+
+export type WhatsAppMessage = MessageBase & (
+  | { type: 'text'; text: { body: string; preview_url: boolean } }
+  | { type: 'image'; image: { link: string; caption?: string } }
+  | { type: 'video'; video: { link: string; caption?: string } }
+  | { type: 'audio'; audio: { link: string } }
+  | { type: 'document'; document: { link: string; caption?: string; filename?: string } }
+  | {
+    type: 'interactive';
+    interactive:
+      | {
+        type: 'button';
+        body: { text: string };
+        action: { buttons: { type: 'reply'; reply: { id: string; title: string } }[] };
+      }
+      | {
+        type: 'list';
+        body: { text: string };
+        action: { button: string; sections: { rows: { id: string; title: string }[] }[] };
+      };
+  }
+);
+
+export type WhatsAppStepKind = 'start' | 'message' | 'buttons' | 'question' | 'condition' | 'subflow';
+
+export interface WhatsAppStep {
+  nodeId: string;
+  kind: WhatsAppStepKind;
+  label: string;
+  /** Sent in order when the conversation arrives at the step */
+  messages: WhatsAppMessage[];
+  /** Question steps: how the answer is checked and where it is stored */
+  input?: {
+    variable: string;
+    inputType: QuestionInputType;
+    pattern?: string;
+    maxRetries: number;
+    /** Sent after an invalid answer while retries are left */
+    retry: WhatsAppMessage;
+  };
+  /** Sub-flow steps: the flow to run and the variables passed in and out */
+  subflow?: { flowId: string; inputs: VariableMapping[]; outputs: VariableMapping[] };
+  /** The conversation is meant to end here */
+  terminal?: boolean;
+}
+
+/** What makes the conversation move on from a step. */
+export type WhatsAppEvent =
+  | { type: 'next' }
+  | { type: 'start'; trigger?: Omit<StartTrigger, 'id'> }
+  | { type: 'reply'; replyId: string; payload: string }
+  | { type: 'valid_answer' }
+  | { type: 'invalid_answer' }
+  | ({ type: 'rule' } & Omit<ConditionRule, 'id'>)
+  | { type: 'else' }
+  | { type: 'exit'; exitId: string | null };
+
+export interface WhatsAppTransition {
+  from: string;
+  on: WhatsAppEvent;
+  to: string;
+  /** The output the transition leaves through, as labelled on the canvas */
+  label: string;
+}
+
+export interface WhatsAppBundle {
+  format: 'whatsapp-cloud-api';
+  version: 1;
+  flow: { id: string; name: string };
+  /** Step the conversation starts at (the Start node) */
+  entry: string;
+  steps: WhatsAppStep[];
+  /** Condition rules are listed in evaluation order, followed by their "else" */
+  transitions: WhatsAppTransition[];
+}
+
+interface NodeLike {
+  id: string;
+  type?: string;
+  data: unknown;
+}
+
+interface NodeData {
+  label?: string;
+  text?: string;
+  media?: MessageMedia;
+  terminal?: boolean;
+  buttons?: QuickReplyButton[];
+  retryMessage?: string;
+  triggers?: StartTrigger[];
+  rules?: ConditionRule[];
+}
+
+const getData = (node: NodeLike) => node.data as NodeData;
+
+const base: MessageBase = { messaging_product: 'whatsapp', recipient_type: 'individual' };
+
+const textMessage = (body: string): WhatsAppMessage => ({
+  ...base,
+  type: 'text',
+  text: { body, preview_url: /https?:\/\//.test(body) },
+});
+
+const mediaMessage = ({ type, url }: MessageMedia, caption: string): WhatsAppMessage => {
+  const captioned = caption ? { caption } : {};
+  switch (type) {
+    case 'image':
+      return { ...base, type, image: { link: url, ...captioned } };
+    case 'video':
+      return { ...base, type, video: { link: url, ...captioned } };
+    case 'audio':
+      return { ...base, type, audio: { link: url } };
+    case 'document':
+      return { ...base, type, document: { link: url, ...captioned, filename: getMediaFileName(url) } };
+  }
+};
+
+// Up to three buttons are reply buttons; more become a list the user opens
+const buttonsMessage = (text: string, buttons: QuickReplyButton[]): WhatsAppMessage =>
+  buttons.length <= WHATSAPP_LIMITS.replyButtons
+    ? {
+      ...base,
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text },
+        action: {
+          buttons: buttons.map((button) => ({ type: 'reply', reply: { id: button.id, title: button.title } })),
+        },
+      },
+    }
+    : {
+      ...base,
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        body: { text },
+        action: {
+          button: LIST_BUTTON_TEXT,
+          sections: [{ rows: buttons.map((button) => ({ id: button.id, title: button.title })) }],
+        },
+      },
+    };
+
+/** The messages a Message node sends: the file with the text as its caption, or the text alone. */
+const getMessageNodeMessages = (data: NodeData) => {
+  const text = data.text ?? '';
+  if (!data.media) {
+    return [textMessage(text)];
+  }
+  if (CAPTIONED_MEDIA_TYPES.has(data.media.type)) {
+    return [mediaMessage(data.media, text)];
+  }
+  return [mediaMessage(data.media, ''), ...(text ? [textMessage(text)] : [])];
+};
+
+const toStep = (node: NodeLike): WhatsAppStep | null => {
+  const data = getData(node);
+  const step = { nodeId: node.id, label: data.label ?? '' };
+  switch (node.type) {
+    case 'startNode':
+      return { ...step, kind: 'start', messages: [] };
+    case 'textNode':
+      return {
+        ...step,
+        kind: 'message',
+        messages: getMessageNodeMessages(data),
+        ...(data.terminal && { terminal: true }),
+      };
+    case 'buttonsNode':
+      return { ...step, kind: 'buttons', messages: [buttonsMessage(data.text ?? '', data.buttons ?? [])] };
+    case 'questionNode': {
+      const question = node.data as {
+        variable: string;
+        inputType: QuestionInputType;
+        pattern?: string;
+        maxRetries: number;
+      };
+      return {
+        ...step,
+        kind: 'question',
+        messages: [textMessage(data.text ?? '')],
+        input: {
+          variable: question.variable,
+          inputType: question.inputType,
+          ...(question.inputType === 'regex' && { pattern: question.pattern ?? '' }),
+          maxRetries: question.maxRetries,
+          retry: textMessage(data.retryMessage || DEFAULT_RETRY_MESSAGE),
+        },
+      };
+    }
+    case 'conditionNode':
+      return { ...step, kind: 'condition', messages: [] };
+    case 'subflowNode': {
+      const { flowId, inputs, outputs } = node.data as {
+        flowId: string;
+        inputs: VariableMapping[];
+        outputs: VariableMapping[];
+      };
+      return { ...step, kind: 'subflow', messages: [], subflow: { flowId, inputs, outputs } };
+    }
+    default:
+      return null;
+  }
+};
+
+// The event that leaves `node` through the given source handle
+const getHandleEvent = (node: NodeLike, handleId: string | null): WhatsAppEvent => {
+  const data = getData(node);
+  switch (node.type) {
+    case 'startNode': {
+      const trigger = data.triggers?.find((entry) => entry.id === handleId);
+      return trigger ? { type: 'start', trigger: { type: trigger.type, value: trigger.value } } : { type: 'start' };
+    }
+    case 'buttonsNode': {
+      const button = data.buttons?.find((entry) => entry.id === handleId);
+      return { type: 'reply', replyId: handleId ?? '', payload: button?.payload || button?.title || '' };
+    }
+    case 'questionNode':
+      return handleId === INVALID_HANDLE_ID ? { type: 'invalid_answer' } : { type: 'valid_answer' };
+    case 'conditionNode': {
+      const rule = data.rules?.find((entry) => entry.id === handleId);
+      if (handleId === ELSE_HANDLE_ID || !rule) {
+        return { type: 'else' };
+      }
+      return { type: 'rule', variable: rule.variable, operator: rule.operator, value: rule.value };
+    }
+    case 'subflowNode':
+      return { type: 'exit', exitId: handleId };
+    default:
+      return { type: 'next' };
+  }
+};
+
+/**
+ * Compiles a flow document into a WhatsApp bundle. Jump nodes don't become
+ * steps: transitions into them lead to their target instead. Unconnected
+ * outputs have no transition. Check `analyzeWhatsAppLimits` (and the flow
+ * analyzer) first; the compiler doesn't shorten anything.
+ */
+export const compileWhatsAppBundle = (document: FlowDocument): WhatsAppBundle => {
+  const nodes = withoutAnnotations(document.nodes as NodeLike[]);
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  // Follows Jump nodes (and chains of them) to the step they continue at
+  const resolveTarget = (nodeId: string) => {
+    const visited = new Set<string>();
+    let node = nodesById.get(nodeId);
+    while (node && isJumpNode(node) && !visited.has(node.id)) {
+      visited.add(node.id);
+      node = nodesById.get(getJumpTargetId(node));
+    }
+    return node && !isJumpNode(node) ? node.id : undefined;
+  };
+
+  const steps = nodes.map(toStep).filter((step): step is WhatsAppStep => step !== null);
+  const transitions = nodes.flatMap((node) =>
+    getSourceHandles(node).flatMap((handle) => {
+      const edge = document.edges.find(
+        (candidate) => candidate.source === node.id && (candidate.sourceHandle ?? null) === handle.id
+      );
+      const to = edge && resolveTarget(edge.target);
+      return to ? [{ from: node.id, on: getHandleEvent(node, handle.id), to, label: handle.label }] : [];
+    })
+  );
+
+  return {
+    format: 'whatsapp-cloud-api',
+    version: 1,
+    flow: { id: document.id, name: document.name },
+    entry: nodes.find(isStartNode)?.id ?? '',
+    steps,
+    transitions,
+  };
+};
+
+/**
+ * Checks the flow against WhatsApp's message limits. Every problem is an
+ * error, since the Cloud API rejects such messages. Lengths are those of the
+ * texts as written; filled-in placeholders can make a message longer.
+ */
+export const analyzeWhatsAppLimits = (allNodes: NodeLike[]): FlowDiagnostic[] => {
+  const diagnostics: FlowDiagnostic[] = [];
+  const report = (node: NodeLike, message: string, handleId: string | null = null) =>
+    diagnostics.push({ code: 'channel_limit', severity: 'error', nodeId: node.id, handleId, message });
+  const checkLength = (node: NodeLike, text: string, limit: number, what: string) => {
+    if (text.length > limit) {
+      report(node, `${nodeName(node)}: the ${what} has ${text.length} characters; WhatsApp allows ${limit}.`);
+    }
+  };
+
+  withoutAnnotations(allNodes).forEach((node) => {
+    const data = getData(node);
+    const text = data.text ?? '';
+    switch (node.type) {
+      case 'textNode': {
+        if (!data.media) {
+          if (!text.trim()) {
+            report(node, `${nodeName(node)} has no text; WhatsApp doesn't send empty messages.`);
+          }
+          checkLength(node, text, WHATSAPP_LIMITS.textBody, 'message text');
+          break;
+        }
+        if (!isWebUrl(data.media.url)) {
+          report(node, `${nodeName(node)}: the attachment needs a web address (http or https) WhatsApp can fetch it from.`);
+        }
+        if (CAPTIONED_MEDIA_TYPES.has(data.media.type)) {
+          checkLength(node, text, WHATSAPP_LIMITS.caption, 'caption');
+        } else {
+          checkLength(node, text, WHATSAPP_LIMITS.textBody, 'message text');
+        }
+        break;
+      }
+
+      case 'buttonsNode': {
+        const buttons = data.buttons ?? [];
+        const isList = buttons.length > WHATSAPP_LIMITS.replyButtons;
+        const titleLimit = isList ? WHATSAPP_LIMITS.rowTitle : WHATSAPP_LIMITS.buttonTitle;
+        if (!text.trim()) {
+          report(node, `${nodeName(node)} has no text; WhatsApp doesn't send buttons without one.`);
+        }
+        checkLength(node, text, isList ? WHATSAPP_LIMITS.listBody : WHATSAPP_LIMITS.buttonBody, 'message text');
+        if (buttons.length === 0) {
+          report(node, `${nodeName(node)} has no buttons.`);
+        } else if (buttons.length > WHATSAPP_LIMITS.listRows) {
+          report(node, `${nodeName(node)} has ${buttons.length} buttons; WhatsApp lists allow ${WHATSAPP_LIMITS.listRows}.`);
+        }
+
+        const seenTitles = new Set<string>();
+        buttons.forEach((button) => {
+          const title = button.title.trim();
+          if (!title) {
+            report(node, `${nodeName(node)} has a button without a title.`, button.id);
+          } else if (title.length > titleLimit) {
+            report(
+              node,
+              `${nodeName(node)}: the button "${title}" has ${title.length} characters; WhatsApp allows ${titleLimit}${isList ? ' in lists' : ''}.`,
+              button.id
+            );
+          }
+          if (title && seenTitles.has(title.toLowerCase())) {
+            report(node, `${nodeName(node)} has several buttons titled "${title}"; WhatsApp needs different titles.`, button.id);
+          }
+          seenTitles.add(title.toLowerCase());
+        });
+        break;
+      }
+
+      case 'questionNode':
+        if (!text.trim()) {
+          report(node, `${nodeName(node)} has no question text; WhatsApp doesn't send empty messages.`);
+        }
+        checkLength(node, text, WHATSAPP_LIMITS.textBody, 'question text');
+        checkLength(node, data.retryMessage ?? '', WHATSAPP_LIMITS.textBody, 'retry message');
+        break;
+    }
+  });
+
+  return diagnostics;
+};
@@ -0,0 +1,119 @@
+/**
+ * Markdown
+ *
+ * A small Markdown subset for canvas notes: `#` to `###` headings,
+ * paragraphs, `-`/`*` and `1.` lists, `>` quotes, and inline `**bold**`,
+ * `*italic*`/`_italic_`, `` `code` `` and `[links](https://...)`. Parsing
+ * produces a tree that is rendered with React elements, never as HTML.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'emphasis'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:.*?[^*\s])?)\*|\b_([^_]+)_\b|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Only links that can't run script in the page
+const SAFE_HREF_PATTERN = /^(https?:|mailto:)/i;
+
+/** Splits a line into text, code spans, emphasis and links, in order. */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const parts: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+
+    const [raw, code, strong, emphasis, underscored, linkText, href] = match;
+    if (code !== undefined) {
+      parts.push({ type: 'code', value: code });
+    } else if (strong !== undefined) {
+      parts.push({ type: 'strong', children: parseInline(strong) });
+    } else if (emphasis !== undefined || underscored !== undefined) {
+      parts.push({ type: 'emphasis', children: parseInline(emphasis ?? underscored) });
+    } else if (SAFE_HREF_PATTERN.test(href)) {
+      parts.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      parts.push({ type: 'text', value: raw });
+    }
+    lastIndex = index + raw.length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\d+[.)]\s+(.*)$/;
+
+/**
+ * Parses Markdown into blocks. Consecutive lines of the same kind form one
+ * block; line breaks inside paragraphs and quotes are kept.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  // Lines of the paragraph or quote being collected
+  let pending: { type: 'paragraph' | 'quote'; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (pending) {
+      blocks.push({ type: pending.type, children: parseInline(pending.lines.join('\n')) });
+      pending = null;
+    }
+  };
+
+  const collect = (type: 'paragraph' | 'quote', line: string) => {
+    if (pending?.type !== type) {
+      flush();
+      pending = { type, lines: [] };
+    }
+    pending.lines.push(line);
+  };
+
+  source.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const heading = line.match(HEADING_PATTERN);
+    const quote = line.match(QUOTE_PATTERN);
+    const unordered = line.match(UNORDERED_ITEM_PATTERN);
+    const ordered = line.match(ORDERED_ITEM_PATTERN);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+    } else if (quote) {
+      collect('quote', quote[1]);
+    } else if (unordered || ordered) {
+      flush();
+      const isOrdered = !unordered;
+      const item = parseInline((unordered ?? ordered)![1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === isOrdered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+    } else {
+      collect('paragraph', line);
+    }
+  });
+
+  flush();
+  return blocks;
+};
@@ -0,0 +1,20 @@
+import { useParams } from "react-router-dom";
+import { FlowBuilder } from "@/components/FlowBuilder";
+
+/**
+ * Flow Editor Page - Chatbot Flow Builder
+ *
+ * Opens the flow from the `:flowId` route parameter in the builder.
+ * Features a complete React Flow-based interface for creating chatbot flows.
+ */
+const FlowEditor = () => {
+  const { flowId = "" } = useParams();
+
+  return (
+    <div className="h-screen">
+      <FlowBuilder key={flowId} flowId={flowId} />
+    </div>
+  );
+};
+
+export default FlowEditor;
@@ -0,0 +1,10 @@
+import { FlowDashboard } from "@/components/FlowDashboard";
+
+/**
+ * Flows Page - list of saved chatbot flows
+ */
+const Flows = () => {
+  return <FlowDashboard />;
+};
+
+export default Flows;
@@ -1,17 +0,0 @@
-import { FlowBuilder } from "@/components/FlowBuilder";
-
-/**
- * Index Page - Chatbot Flow Builder
- * 
- * This is the main page of the chatbot flow builder application.
- * Features a complete React Flow-based interface for creating chatbot flows.
- */
-const Index = () => {
-  return (
-    <div className="h-screen">
-      <FlowBuilder />
-    </div>
-  );
-};
-
-export default Index;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the flow REST API. When unset, flows are stored in localStorage. */
+  readonly VITE_FLOW_API_URL?: string;
+}
@@ -40,6 +40,48 @@ export default {
 				'message-node-border': 'hsl(var(--message-node-border))',
 				'message-node-text': 'hsl(var(--message-node-text))',
 				
+				// Condition node colors
+				'condition-node': 'hsl(var(--condition-node))',
+				'condition-node-bg': 'hsl(var(--condition-node-bg))',
+				'condition-node-border': 'hsl(var(--condition-node-border))',
+				'condition-node-text': 'hsl(var(--condition-node-text))',
+				
+				// Question node colors
+				'question-node': 'hsl(var(--question-node))',
+				'question-node-bg': 'hsl(var(--question-node-bg))',
+				'question-node-border': 'hsl(var(--question-node-border))',
+				'question-node-text': 'hsl(var(--question-node-text))',
+				
+				// Start node colors
+				'start-node': 'hsl(var(--start-node))',
+				'start-node-bg': 'hsl(var(--start-node-bg))',
+				'start-node-border': 'hsl(var(--start-node-border))',
+				'start-node-text': 'hsl(var(--start-node-text))',
+				
+				// Sub-flow node colors
+				'subflow-node': 'hsl(var(--subflow-node))',
+				'subflow-node-bg': 'hsl(var(--subflow-node-bg))',
+				'subflow-node-border': 'hsl(var(--subflow-node-border))',
+				'subflow-node-text': 'hsl(var(--subflow-node-text))',
+				
+				// Jump node colors
+				'jump-node': 'hsl(var(--jump-node))',
+				'jump-node-bg': 'hsl(var(--jump-node-bg))',
+				'jump-node-border': 'hsl(var(--jump-node-border))',
+				'jump-node-text': 'hsl(var(--jump-node-text))',
+				
+				// Note node colors
+				'note-node': 'hsl(var(--note-node))',
+				'note-node-bg': 'hsl(var(--note-node-bg))',
+				'note-node-border': 'hsl(var(--note-node-border))',
+				'note-node-text': 'hsl(var(--note-node-text))',
+				
+				// Group node colors
+				'group-node': 'hsl(var(--group-node))',
+				'group-node-bg': 'hsl(var(--group-node-bg))',
+				'group-node-border': 'hsl(var(--group-node-border))',
+				'group-node-text': 'hsl(var(--group-node-text))',
+				
 				// Panel colors
 				'panel-bg': 'hsl(var(--panel-bg))',
 				'panel-border': 'hsl(var(--panel-border))',